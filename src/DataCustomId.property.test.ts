@@ -0,0 +1,161 @@
+import fc from "fast-check";
+import DataCustomId, { DataCustomIdFields } from "./DataCustomId";
+
+// qs ignores keys that are properties of Object.prototype, like "toString"
+const key = fc
+  .string({ minLength: 1, maxLength: 8 })
+  .filter((k) => !(k in Object.prototype) && !k.startsWith("$"));
+
+const encodeOptions = { skipFalsyValues: false };
+
+function roundTrip(fields: DataCustomIdFields): DataCustomId {
+  const id = new DataCustomId("rawId", { escape: true })
+    .addFields(fields)
+    .toString(encodeOptions);
+
+  return new DataCustomId(id, { escape: true });
+}
+
+describe("escape round-trips", () => {
+  test("any string value", () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 40 }), (value) => {
+        expect(roundTrip({ value }).getFields()).toStrictEqual({ value });
+      })
+    );
+  });
+
+  test("reserved characters", () => {
+    fc.assert(
+      fc.property(
+        fc.stringOf(
+          fc.constantFrom(
+            ",",
+            "&",
+            "=",
+            "?",
+            "/",
+            "!",
+            "[",
+            "]",
+            "%",
+            "+",
+            "~",
+            "a"
+          ),
+          {
+            maxLength: 20,
+          }
+        ),
+        (value) => {
+          expect(roundTrip({ value }).getStringField("value")).toBe(value);
+        }
+      )
+    );
+  });
+
+  test("any key", () => {
+    fc.assert(
+      fc.property(key, fc.string({ maxLength: 20 }), (k, value) => {
+        expect(roundTrip({ [k]: value }).getFields()).toStrictEqual({
+          [k]: value,
+        });
+      })
+    );
+  });
+
+  test("multiple fields", () => {
+    fc.assert(
+      fc.property(
+        fc.dictionary(key, fc.string({ maxLength: 8 }), { maxKeys: 5 }),
+        (fields) => {
+          expect(roundTrip(fields).getFields()).toStrictEqual(fields);
+        }
+      )
+    );
+  });
+
+  test("string arrays with more than one element", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.string({ maxLength: 8 }), { minLength: 2, maxLength: 5 }),
+        (value) => {
+          expect(
+            roundTrip({ value }).getStringArrayField("value")
+          ).toStrictEqual(value);
+        }
+      )
+    );
+  });
+
+  test("with signing", () => {
+    const signing = { secret: "secret" };
+
+    fc.assert(
+      fc.property(fc.string({ maxLength: 35 }), (value) => {
+        const id = DataCustomId.create("rawId", { escape: true, signing })
+          .addField("value", value)
+          .toString(encodeOptions);
+
+        expect(
+          new DataCustomId(id, { escape: true, signing }).getStringField(
+            "value"
+          )
+        ).toBe(value);
+      })
+    );
+  });
+});
+
+describe("typed round-trips", () => {
+  const typed = { typed: true };
+  const scalar = fc.oneof(
+    fc.string({ maxLength: 10 }),
+    fc.double(),
+    fc.boolean(),
+    fc.constant(null),
+    fc.bigInt({ min: -(BigInt(2) ** BigInt(64)), max: BigInt(2) ** BigInt(64) })
+  );
+
+  function typedRoundTrip(
+    fields: DataCustomIdFields,
+    compactIntegers = false
+  ): DataCustomIdFields {
+    const id = new DataCustomId("rawId", typed)
+      .addFields(fields)
+      .toString({ ...encodeOptions, compactIntegers });
+
+    return new DataCustomId(id, typed).getFields();
+  }
+
+  test("any value", () => {
+    fc.assert(
+      fc.property(scalar, fc.boolean(), (value, compactIntegers) => {
+        expect(typedRoundTrip({ value }, compactIntegers)).toStrictEqual({
+          value,
+        });
+      })
+    );
+  });
+
+  test("arrays of any length", () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.oneof(
+            fc.string({ maxLength: 5 }),
+            fc.integer(),
+            fc.boolean(),
+            fc.constant(null)
+          ),
+          { maxLength: 4 }
+        ),
+        (value) => {
+          expect(typedRoundTrip({ value: value as string[] })).toStrictEqual({
+            value,
+          });
+        }
+      )
+    );
+  });
+});
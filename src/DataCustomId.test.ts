@@ -1,4 +1,23 @@
-import DataCustomId, {DataCustomIdLengthError} from "./DataCustomId";
+import DataCustomId, {
+  DataCustomIdAliasError,
+  DataCustomIdAliases,
+  DataCustomIdCodecs,
+  DataCustomIdConsumedError,
+  DataCustomIdDecryptionError,
+  DataCustomIdExpiredError,
+  DataCustomIdLengthError,
+  DataCustomIdMigrations,
+  DataCustomIdOptions,
+  DataCustomIdOwnershipError,
+  DataCustomIdParseError,
+  DataCustomIdSignatureError,
+  DataCustomIdStateStore,
+  DataCustomIdStoreError,
+  DataCustomIdVersionError,
+  MemoryNonceStore,
+  MemoryStateStore,
+  PositionalCodec,
+} from "./DataCustomId";
 
 describe("constructor", () => {
   describe("rawId", () => {
@@ -258,6 +277,15 @@ describe("getting fields", () => {
 
       expect(dataCustomId.getNumericField("param1", true, 2)).toBeNaN();
     });
+
+    test("base62 number with compactIntegers", () => {
+      const id = new DataCustomId("rawId")
+        .addField("param1", 123456789)
+        .toString({ compactIntegers: true });
+
+      expect(new DataCustomId(id).getNumericField("param1", false, 62)).toBe(123456789);
+      expect(new DataCustomId("rawId?param1=!").getNumericField("param1", false, 62)).toBeNaN();
+    });
   });
 
   describe("getNumericArrayField", () => {
@@ -282,6 +310,20 @@ describe("getting fields", () => {
       expect(dataCustomId.getNumericArrayField("param1").every(val => isNaN(val))).toBe(true);
     });
 
+    test("with floats", () => {
+      const dataCustomId = new DataCustomId("rawId?param1=1.5,2.25");
+
+      expect(dataCustomId.getNumericArrayField("param1", true)).toStrictEqual([1.5, 2.25]);
+    });
+
+    test("with base62 numbers", () => {
+      const id = new DataCustomId("rawId")
+        .addField("param1", [62, 3843])
+        .toString({ compactIntegers: true });
+
+      expect(new DataCustomId(id).getNumericArrayField("param1", false, 62)).toStrictEqual([62, 3843]);
+    });
+
     test("getNumericArrayField with numbers", () => {
       const dataCustomId = new DataCustomId("rawId");
       dataCustomId.addField("param1", [1, 2]);
@@ -303,6 +345,81 @@ describe("getting fields", () => {
     });
   });
 
+  describe("getSnowflakeField", () => {
+    test("with compact value", () => {
+      const dataCustomId = new DataCustomId("rawId?user=389EKWzMNN");
+
+      expect(dataCustomId.getSnowflakeField("user", 62)).toBe(BigInt("42390489028347289"));
+    });
+
+    test("with base 10 value", () => {
+      const dataCustomId = new DataCustomId("rawId?user=42390489028347289");
+
+      expect(dataCustomId.getSnowflakeField("user")).toBe(BigInt("42390489028347289"));
+      expect(dataCustomId.getSnowflakeField("user", 10)).toBe(BigInt("42390489028347289"));
+    });
+
+    test("with bigint value", () => {
+      const dataCustomId = new DataCustomId("rawId");
+      dataCustomId.addField("user", BigInt("42390489028347289"));
+
+      expect(dataCustomId.getSnowflakeField("user")).toBe(BigInt("42390489028347289"));
+    });
+
+    test("round-trips with compactIntegers", () => {
+      const id = new DataCustomId("rawId")
+        .addField("user", BigInt("18446744073709551615"))
+        .toString({ compactIntegers: true });
+
+      expect(new DataCustomId(id).getSnowflakeField("user", 62)).toBe(BigInt("18446744073709551615"));
+    });
+
+    test("reads snowflake strings in base 10 with compactIntegers", () => {
+      const id = new DataCustomId("rawId")
+        .addField("user", "42390489028347289")
+        .toString({ compactIntegers: true });
+
+      expect(id).toBe("rawId?user=42390489028347289");
+      expect(new DataCustomId(id).getSnowflakeField("user")).toBe(BigInt("42390489028347289"));
+    });
+
+    test("with invalid values", () => {
+      const dataCustomId = new DataCustomId("rawId?a=abc!&b=1.5");
+
+      expect(dataCustomId.getSnowflakeField("a", 62)).toBe(BigInt(0));
+      expect(dataCustomId.getSnowflakeField("b")).toBe(BigInt(0));
+    });
+
+    test("without value", () => {
+      const dataCustomId = new DataCustomId("rawId");
+
+      expect(dataCustomId.getSnowflakeField("user")).toBe(BigInt(0));
+    });
+  });
+
+  describe("getSnowflakeArrayField", () => {
+    test("round-trips with compactIntegers", () => {
+      const channels = [BigInt("42390489028347289"), BigInt("1"), BigInt("-5")];
+      const id = new DataCustomId("rawId")
+        .addField("channels", channels)
+        .toString({ compactIntegers: true });
+
+      expect(new DataCustomId(id).getSnowflakeArrayField("channels", 62)).toStrictEqual(channels);
+    });
+
+    test("with base 10 values", () => {
+      const dataCustomId = new DataCustomId("rawId?channels=1,2");
+
+      expect(dataCustomId.getSnowflakeArrayField("channels", 10)).toStrictEqual([BigInt(1), BigInt(2)]);
+    });
+
+    test("without value", () => {
+      const dataCustomId = new DataCustomId("rawId");
+
+      expect(dataCustomId.getSnowflakeArrayField("channels")).toStrictEqual([]);
+    });
+  });
+
   describe("getBooleanField", () => {
     test("with valid values", () => {
       const dataCustomId = new DataCustomId("rawId");
@@ -401,6 +518,45 @@ describe("getting fields", () => {
       }
     });
 
+    test("compactIntegers", () => {
+      const dataCustomId = new DataCustomId("rawId");
+      dataCustomId.addFields({
+        user: BigInt("42390489028347289"),
+        channels: [BigInt("42390489028347289"), BigInt(62)],
+        page: 61,
+        negative: -62,
+        float: 1.5,
+        text: "abc",
+      });
+
+      expect(dataCustomId.toString({
+        skipFalsyValues: true,
+        compactIntegers: true,
+      })).toBe("rawId?user=389EKWzMNN&channels=389EKWzMNN,10&page=z&negative=-10&float=1.5&text=abc");
+    });
+
+    test("compactIntegers leaves strings of digits alone", () => {
+      const dataCustomId = new DataCustomId("rawId");
+      dataCustomId.addFields({
+        user: "42390489028347289",
+        channels: ["42390489028347289", "62"],
+        code: "007",
+        text: "1.5",
+      });
+
+      expect(dataCustomId.toString({
+        skipFalsyValues: true,
+        compactIntegers: true,
+      })).toBe("rawId?user=42390489028347289&channels=42390489028347289,62&code=007&text=1.5");
+    });
+
+    test("bigints without compactIntegers", () => {
+      const dataCustomId = new DataCustomId("rawId");
+      dataCustomId.addField("user", BigInt("42390489028347289"));
+
+      expect(dataCustomId.toString()).toBe("rawId?user=42390489028347289");
+    });
+
     test("encodes empty fields when told to", () => {
       const dataCustomId = new DataCustomId("rawId");
       dataCustomId.addField("param1", "");
@@ -411,3 +567,1184 @@ describe("getting fields", () => {
     });
   });
 });
+
+describe("signing", () => {
+  const signing = { secret: "secret" };
+
+  test("appends a signature", () => {
+    const dataCustomId = DataCustomId.create("ban/confirm", { signing });
+    dataCustomId.addField("user", "42390489028347289");
+
+    expect(dataCustomId.toString()).toMatch(/^ban\/confirm\?user=42390489028347289~[\w-]{8}$/);
+  });
+
+  test("signs custom IDs without fields", () => {
+    const dataCustomId = DataCustomId.create("ban/confirm", { signing });
+
+    expect(dataCustomId.toString()).toMatch(/^ban\/confirm~[\w-]{8}$/);
+  });
+
+  test("round-trips signed custom IDs", () => {
+    const id = DataCustomId.create("ban/confirm", { signing })
+      .addField("user", "42390489028347289")
+      .toString();
+
+    const dataCustomId = new DataCustomId(id, { signing });
+
+    expect(dataCustomId.rawId).toBe("ban/confirm");
+    expect(dataCustomId.getFields()).toStrictEqual({ user: "42390489028347289" });
+  });
+
+  test("rejects edited custom IDs", () => {
+    const id = DataCustomId.create("ban/confirm", { signing })
+      .addField("user", "42390489028347289")
+      .toString();
+
+    expect(() => new DataCustomId(id.replace("289", "288"), { signing })).toThrow(DataCustomIdSignatureError);
+  });
+
+  test("rejects custom IDs without a signature", () => {
+    expect(() => new DataCustomId("ban/confirm?user=1", { signing })).toThrow(DataCustomIdSignatureError);
+  });
+
+  test("rejects custom IDs signed with another secret", () => {
+    const id = DataCustomId.create("ban/confirm", { signing: { secret: "other" } }).toString();
+
+    expect(() => new DataCustomId(id, { signing })).toThrow(DataCustomIdSignatureError);
+  });
+
+  test("signatureLength", () => {
+    const id = DataCustomId.create("ban/confirm", { signing: { secret: "secret", signatureLength: 12 } }).toString();
+
+    expect(id).toMatch(/^ban\/confirm~[\w-]{12}$/);
+  });
+
+  test("rotates secrets", () => {
+    const oldId = DataCustomId.create("ban/confirm", { signing: { secret: "old" } })
+      .addField("user", "1")
+      .toString();
+    const rotated = { secret: ["new", "old"] };
+
+    expect(new DataCustomId(oldId, { signing: rotated }).getStringField("user")).toBe("1");
+
+    const newId = DataCustomId.create("ban/confirm", { signing: rotated }).toString();
+    expect(DataCustomId.verify(newId, { secret: "new" })).toBe(true);
+    expect(DataCustomId.verify(newId, { secret: "old" })).toBe(false);
+  });
+
+  test("signature counts towards the length limit", () => {
+    const dataCustomId = DataCustomId.create("rawId", { signing });
+    // 95 characters without the signature
+    dataCustomId.addField("a", "a".repeat(87));
+
+    expect(() => dataCustomId.toString()).toThrow(DataCustomIdLengthError);
+  });
+
+  test("rejects custom IDs with their signature removed", () => {
+    const id = DataCustomId.create("ban/confirm", { signing }).addField("user", "1").toString();
+    const rawId = DataCustomId.create("ban/confirm", { signing }).toString();
+
+    expect(() => new DataCustomId(id.slice(0, id.indexOf("~")), { signing })).toThrow(DataCustomIdSignatureError);
+    expect(() => new DataCustomId(rawId.slice(0, rawId.indexOf("~")), { signing })).toThrow(DataCustomIdSignatureError);
+  });
+
+  test("create builds custom IDs without parsing them", () => {
+    const dataCustomId = DataCustomId.create("ban/confirm", { signing });
+
+    expect(dataCustomId.rawId).toBe("ban/confirm");
+    expect(dataCustomId.getFields()).toStrictEqual({});
+    expect(() => DataCustomId.create("ban/confirm?user=1", { signing })).toThrow("DataCustomId.create takes a raw ID without fields: ban/confirm?user=1");
+  });
+
+  test("verify", () => {
+    const id = DataCustomId.create("ban/confirm", { signing }).toString();
+
+    expect(DataCustomId.verify(id, signing)).toBe(true);
+    expect(DataCustomId.verify("ban/confirm", signing)).toBe(false);
+  });
+});
+
+describe("overflow store", () => {
+  const longReason = "a".repeat(120);
+
+  test("doesn't use the store when the custom ID fits", () => {
+    const store = new MemoryStateStore();
+    const set = jest.spyOn(store, "set");
+    const id = new DataCustomId("ban/confirm", { store }).addField("user", "1").toString();
+
+    expect(id).toBe("ban/confirm?user=1");
+    expect(set).not.toHaveBeenCalled();
+  });
+
+  test("stores fields that don't fit", () => {
+    const store = new MemoryStateStore();
+    const id = new DataCustomId("ban/confirm", { store })
+      .addFields({ user: "1", reason: longReason })
+      .toString();
+
+    expect(id).toMatch(/^ban\/confirm\?\$t=[\w-]{8}$/);
+
+    const dataCustomId = new DataCustomId(id, { store });
+    expect(dataCustomId.rawId).toBe("ban/confirm");
+    expect(dataCustomId.getFields()).toStrictEqual({ user: "1", reason: longReason });
+    expect(dataCustomId.getStringField("reason")).toBe(longReason);
+  });
+
+  test("works with signing", () => {
+    const store = new MemoryStateStore();
+    const signing = { secret: "secret" };
+    const id = DataCustomId.create("ban/confirm", { store, signing })
+      .addField("reason", longReason)
+      .toString();
+
+    expect(id).toMatch(/^ban\/confirm\?\$t=[\w-]{8}~[\w-]{8}$/);
+    expect(new DataCustomId(id, { store, signing }).getStringField("reason")).toBe(longReason);
+  });
+
+  test("throws when the stored fields are missing", () => {
+    expect(() => new DataCustomId("ban/confirm?$t=missing", { store: new MemoryStateStore() })).toThrow(DataCustomIdStoreError);
+  });
+
+  test("throws when the raw ID alone is too long", () => {
+    const dataCustomId = new DataCustomId("a".repeat(95), { store: new MemoryStateStore() })
+      .addField("user", "1");
+
+    expect(() => dataCustomId.toString()).toThrow(DataCustomIdLengthError);
+  });
+
+  describe("async stores", () => {
+    const createAsyncStore = (): DataCustomIdStateStore => {
+      const values = new Map<string, string>();
+      return {
+        get: async (token) => values.get(token),
+        set: async (token, value) => {
+          values.set(token, value);
+        },
+      };
+    };
+
+    test("toStringAsync and parseAsync", async () => {
+      const store = createAsyncStore();
+      const id = await new DataCustomId("ban/confirm", { store })
+        .addField("reason", longReason)
+        .toStringAsync();
+
+      const dataCustomId = await DataCustomId.parseAsync(id, { store });
+      expect(dataCustomId.getStringField("reason")).toBe(longReason);
+      // keeps the store for encoding again
+      expect(await dataCustomId.toStringAsync()).toMatch(/^ban\/confirm\?\$t=/);
+    });
+
+    test("parseAsync rejects when the stored fields are missing", async () => {
+      await expect(DataCustomId.parseAsync("ban/confirm?$t=missing", { store: createAsyncStore() })).rejects.toThrow(DataCustomIdStoreError);
+    });
+
+    test("toString throws with async stores", () => {
+      const dataCustomId = new DataCustomId("ban/confirm", { store: createAsyncStore() })
+        .addField("reason", longReason);
+
+      expect(() => dataCustomId.toString()).toThrow(DataCustomIdStoreError);
+    });
+
+    test("constructor throws with async stores", () => {
+      expect(() => new DataCustomId("ban/confirm?$t=token", { store: createAsyncStore() })).toThrow(DataCustomIdStoreError);
+    });
+
+    test("parseAsync works without stored fields", async () => {
+      const dataCustomId = await DataCustomId.parseAsync("ban/confirm?user=1", { store: createAsyncStore() });
+
+      expect(dataCustomId.getFields()).toStrictEqual({ user: "1" });
+    });
+  });
+});
+
+describe("escape", () => {
+  test("escapes reserved characters", () => {
+    const dataCustomId = new DataCustomId("ban/confirm", { escape: true });
+    dataCustomId.addField("reason", "spam, ads & scams");
+
+    expect(dataCustomId.toString()).toBe("ban/confirm?reason=spam!c ads !a scams");
+  });
+
+  test("escapes keys and the escape character", () => {
+    const dataCustomId = new DataCustomId("rawId", { escape: true });
+    dataCustomId.addField("a=b", "wow!");
+
+    expect(dataCustomId.toString()).toBe("rawId?a!eb=wow!!");
+  });
+
+  test("round-trips values with reserved characters", () => {
+    const fields = {
+      reason: "spam, ads & scams",
+      equation: "1+1=2",
+      url: "a.b/?c=1&d=100%",
+      empty: "",
+      list: ["a,b", "c&d"],
+    };
+    const id = new DataCustomId("rawId", { escape: true })
+      .addFields(fields)
+      .toString({ skipFalsyValues: false });
+
+    expect(new DataCustomId(id, { escape: true }).getFields()).toStrictEqual(fields);
+  });
+
+  test("escapes count towards the length limit", () => {
+    const dataCustomId = new DataCustomId("rawId", { escape: true });
+    dataCustomId.addField("a", ",".repeat(50));
+
+    expect(() => dataCustomId.toString()).toThrow(DataCustomIdLengthError);
+  });
+
+  test("works with stored fields", () => {
+    const store = new MemoryStateStore();
+    const reason = "spam, ads & scams ".repeat(10);
+    const id = new DataCustomId("rawId", { escape: true, store })
+      .addField("reason", reason)
+      .toString();
+
+    expect(new DataCustomId(id, { escape: true, store }).getStringField("reason")).toBe(reason);
+  });
+});
+
+describe("typed", () => {
+  test("encodes type markers", () => {
+    const dataCustomId = new DataCustomId("rawId", { typed: true });
+    dataCustomId.addFields({ n: 42, t: true, s: "!", a: ["x"], e: [] });
+
+    expect(dataCustomId.toString()).toBe("rawId?n=!42&t=!T&s=!!&a=!,x&e=!");
+  });
+
+  test("round-trips types", () => {
+    const fields = {
+      s: "a, b",
+      i: 42,
+      f: -1.5,
+      z: -0,
+      b: BigInt("-42"),
+      t: true,
+      n: false,
+      u: null,
+      e: [],
+      one: ["a"],
+      nums: [0, 1.5],
+      strs: ["", "!"],
+    };
+    const id = new DataCustomId("rawId", { typed: true })
+      .addFields(fields)
+      .toString({ skipFalsyValues: false });
+
+    expect(new DataCustomId(id, { typed: true }).getFields()).toStrictEqual(fields);
+  });
+
+  test("strings that look like markers stay strings", () => {
+    const fields = { a: "!T", b: "42", c: "!", d: "null" };
+    const id = new DataCustomId("rawId", { typed: true }).addFields(fields).toString();
+
+    expect(new DataCustomId(id, { typed: true }).getFields()).toStrictEqual(fields);
+  });
+
+  test("skipFalsyValues keeps zeros", () => {
+    const id = new DataCustomId("rawId", { typed: true })
+      .addFields({ zero: 0, bigZero: BigInt(0), false: false, empty: "", null: null, nan: NaN })
+      .toString();
+
+    expect(id).toBe("rawId?zero=!0&bigZero=!0n");
+  });
+
+  test("convertTrueToOne has no effect", () => {
+    const id = new DataCustomId("rawId", { typed: true })
+      .addField("t", true)
+      .toString({ convertTrueToOne: true });
+
+    expect(new DataCustomId(id, { typed: true }).getFields()).toStrictEqual({ t: true });
+  });
+
+  test("compactIntegers", () => {
+    const snowflake = BigInt("42390489028347289");
+    const id = new DataCustomId("rawId", { typed: true })
+      .addFields({ user: snowflake, count: 61, list: [62, -1], guild: "42390489028347289", code: "61" })
+      .toString({ compactIntegers: true });
+
+    expect(id).toBe("rawId?user=!b389EKWzMNN&count=!iz&list=!,!i10,!i-1&guild=!d389EKWzMNN&code=61");
+    expect(new DataCustomId(id, { typed: true }).getFields()).toStrictEqual({
+      user: snowflake,
+      count: 61,
+      list: [62, -1],
+      guild: "42390489028347289",
+      code: "61",
+    });
+  });
+
+  test("getters read typed values", () => {
+    const id = new DataCustomId("rawId", { typed: true })
+      .addFields({ user: BigInt(5), days: 7, list: [1.5], silent: true })
+      .toString();
+    const dataCustomId = new DataCustomId(id, { typed: true });
+
+    expect(dataCustomId.getSnowflakeField("user")).toBe(BigInt(5));
+    expect(dataCustomId.getNumericField("days")).toBe(7);
+    expect(dataCustomId.getNumericArrayField("list", true)).toStrictEqual([1.5]);
+    expect(dataCustomId.getBooleanField("silent")).toBe(true);
+  });
+});
+
+describe("expiry", () => {
+  let now = 1700000000000;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1700000000000;
+  });
+
+  test("encodes the expiry in base 62 seconds", () => {
+    const id = new DataCustomId("ban/confirm", { clock })
+      .addField("user", "1")
+      .setExpiresIn(5 * 60 * 1000)
+      .toString();
+
+    expect(id).toBe("ban/confirm?user=1&$e=1r31jg");
+  });
+
+  test("round-trips the expiry", () => {
+    const id = new DataCustomId("ban/confirm", { clock }).setExpiresIn(60000).toString();
+    const dataCustomId = new DataCustomId(id, { clock });
+
+    expect(dataCustomId.expiresAt).toStrictEqual(new Date(now + 60000));
+    expect(dataCustomId.getFields()).toStrictEqual({});
+    expect(dataCustomId.isExpired()).toBe(false);
+
+    now += 60000;
+    expect(dataCustomId.isExpired()).toBe(true);
+  });
+
+  test("rounds up to the next second", () => {
+    const dataCustomId = new DataCustomId("rawId").setExpiresAt(1500);
+
+    expect(dataCustomId.expiresAt).toStrictEqual(new Date(2000));
+  });
+
+  test("custom IDs without an expiry don't expire", () => {
+    const dataCustomId = new DataCustomId("rawId?user=1");
+
+    expect(dataCustomId.expiresAt).toBeUndefined();
+    expect(dataCustomId.isExpired()).toBe(false);
+  });
+
+  test("unreadable expiries count as expired", () => {
+    expect(new DataCustomId("rawId?$e=!", { clock }).isExpired()).toBe(true);
+  });
+
+  test("rejectExpired", () => {
+    const options = { clock, rejectExpired: true };
+    const id = new DataCustomId("ban/confirm", options).setExpiresAt(now + 1000).toString();
+
+    expect(() => new DataCustomId(id, options)).not.toThrow();
+    now += 1000;
+    expect(() => new DataCustomId(id, options)).toThrow(DataCustomIdExpiredError);
+  });
+
+  test("keeps the expiry in the custom ID with stored fields", () => {
+    const store = new MemoryStateStore();
+    const options = { clock, store, rejectExpired: true };
+    const id = new DataCustomId("ban/confirm", options)
+      .addField("reason", "spam".repeat(30))
+      .setExpiresIn(1000)
+      .toString();
+
+    expect(id).toMatch(/^ban\/confirm\?\$t=[\w-]+&\$e=\w+$/);
+    expect(new DataCustomId(id, options).getStringField("reason")).toBe("spam".repeat(30));
+    now += 1000;
+    expect(() => new DataCustomId(id, options)).toThrow(DataCustomIdExpiredError);
+  });
+
+  test("the expiry is signed", () => {
+    const signing = { secret: "secret" };
+    const id = DataCustomId.create("ban/confirm", { clock, signing }).setExpiresIn(1000).toString();
+
+    expect(() => new DataCustomId(id.replace(/\$e=\w+/, "$e=zzzzzz"), { signing })).toThrow(
+      DataCustomIdSignatureError
+    );
+  });
+});
+
+describe("migrations", () => {
+  const migrations = new DataCustomIdMigrations(3)
+    .add(1, ({ u, ...fields }) => ({ ...fields, user: u }))
+    .add(2, ({ days, ...fields }) => ({ ...fields, hours: String(Number(days) * 24) }));
+
+  test("encodes the current version", () => {
+    const id = new DataCustomId("ban/confirm", { migrations }).addField("user", "1").toString();
+
+    expect(id).toBe("ban/confirm?user=1&$v=3");
+    expect(new DataCustomId(id, { migrations }).getFields()).toStrictEqual({ user: "1" });
+  });
+
+  test("migrates older versions", () => {
+    expect(new DataCustomId("ban/confirm?user=1&days=2&$v=2", { migrations }).getFields()).toStrictEqual({
+      user: "1",
+      hours: "48",
+    });
+  });
+
+  test("custom IDs without a version are version 1", () => {
+    expect(new DataCustomId("ban/confirm?u=1&days=1", { migrations }).getFields()).toStrictEqual({
+      user: "1",
+      hours: "24",
+    });
+  });
+
+  test("rejects versions that can't be migrated", () => {
+    expect(() => new DataCustomId("ban/confirm?user=1&$v=4", { migrations })).toThrow(DataCustomIdVersionError);
+    expect(() => new DataCustomId("ban/confirm?user=1&$v=x", { migrations })).toThrow(DataCustomIdVersionError);
+    expect(() => new DataCustomId("ban/confirm?user=1", { migrations: new DataCustomIdMigrations(2) })).toThrow(
+      DataCustomIdVersionError
+    );
+  });
+
+  test("migrates stored fields", async () => {
+    const store = new MemoryStateStore();
+    const id = "ban/confirm?$t=token&$v=1";
+    store.set("token", "u=1&days=1");
+
+    expect(new DataCustomId(id, { migrations, store }).getFields()).toStrictEqual({ user: "1", hours: "24" });
+    expect((await DataCustomId.parseAsync(id, { migrations, store })).getFields()).toStrictEqual({
+      user: "1",
+      hours: "24",
+    });
+  });
+
+  test("re-encodes migrated custom IDs with the current version", () => {
+    const id = new DataCustomId("ban/confirm?u=1&days=1&$v=1", { migrations }).toString();
+
+    expect(id).toBe("ban/confirm?user=1&hours=24&$v=3");
+  });
+});
+
+describe("aliases", () => {
+  const aliases = new DataCustomIdAliases({ userId: "u", reason: "r", roles: "ro" });
+
+  test("encodes fields under their aliases", () => {
+    const id = new DataCustomId("ban/confirm", { aliases })
+      .addFields({ userId: "1", reason: "spam", days: "7" })
+      .toString();
+
+    expect(id).toBe("ban/confirm?u=1&r=spam&days=7");
+  });
+
+  test("decodes aliases to their names", () => {
+    const dataCustomId = new DataCustomId("ban/confirm?u=1&r=spam&ro=a,b&days=7", { aliases });
+
+    expect(dataCustomId.getFields()).toStrictEqual({ userId: "1", reason: "spam", roles: ["a", "b"], days: "7" });
+    expect(dataCustomId.getStringField("userId")).toBe("1");
+    expect(dataCustomId.getStringArrayField("roles")).toStrictEqual(["a", "b"]);
+  });
+
+  test("throws for fields named like another field's alias", () => {
+    const dataCustomId = new DataCustomId("ban/confirm", { aliases }).addField("u", "1");
+
+    expect(() => dataCustomId.toString()).toThrow(DataCustomIdAliasError);
+  });
+
+  test("works with stored fields and typed values", () => {
+    const store = new MemoryStateStore();
+    const options = { aliases, store, typed: true };
+    const id = new DataCustomId("ban/confirm", options)
+      .addFields({ userId: BigInt(1), reason: "spam".repeat(30) })
+      .toString();
+
+    expect(new DataCustomId(id, options).getFields()).toStrictEqual({
+      userId: BigInt(1),
+      reason: "spam".repeat(30),
+    });
+  });
+});
+
+describe("measure", () => {
+  test("measures each part", () => {
+    const dataCustomId = DataCustomId.create("ban/confirm", { signing: { secret: "secret" } })
+      .addFields({ user: "1", reason: "spam", empty: "" })
+      .setExpiresAt(1000);
+
+    expect(dataCustomId.measure()).toStrictEqual({
+      length: dataCustomId.toString().length,
+      limit: 100,
+      remaining: 100 - dataCustomId.toString().length,
+      rawId: 11,
+      fields: { user: 6, reason: 11 },
+      metaFields: 4,
+      separators: 3,
+      signature: 9,
+    });
+  });
+
+  test("matches toString with every option", () => {
+    const options = { escape: true, aliases: new DataCustomIdAliases({ reason: "r" }) };
+    const dataCustomId = new DataCustomId("rawId", options).addFields({ reason: "a, b", list: ["c", "d"], n: 42 });
+    const compressionOptions = { skipFalsyValues: true, compactIntegers: true };
+
+    expect(dataCustomId.measure(compressionOptions).length).toBe(dataCustomId.toString(compressionOptions).length);
+  });
+
+  test("doesn't throw when too long", () => {
+    const dataCustomId = new DataCustomId("rawId").addField("a", "a".repeat(100));
+
+    expect(dataCustomId.measure({ maxLength: 50 })).toMatchObject({ length: 108, limit: 50, remaining: -58 });
+  });
+
+  test("raw IDs without fields", () => {
+    expect(new DataCustomId("rawId").measure()).toMatchObject({ length: 5, separators: 0, fields: {} });
+  });
+
+  test("explain", () => {
+    const dataCustomId = new DataCustomId("ban/confirm").addFields({ user: "1", reason: "spam" });
+
+    expect(dataCustomId.explain()).toBe(
+      [
+        "raw ID: 11",
+        "field reason: 11",
+        "field user: 6",
+        "meta fields: 0",
+        "separators: 2",
+        "signature: 0",
+        "total: 30 of 100 (70 remaining)",
+      ].join("\n")
+    );
+  });
+});
+
+describe("overflow strategies", () => {
+  test("maxLength", () => {
+    const dataCustomId = new DataCustomId("rawId").addField("a", "a".repeat(40));
+
+    expect(() => dataCustomId.toString({ maxLength: 45 })).toThrow(DataCustomIdLengthError);
+    expect(dataCustomId.toString({ maxLength: 48 })).toHaveLength(48);
+  });
+
+  test("drops droppable fields in order until it fits", () => {
+    const dataCustomId = new DataCustomId("rawId").addFields({ a: "a".repeat(30), b: "b".repeat(30), c: "c" });
+    const options = { maxLength: 45, droppableFields: ["c", "b", "a"] };
+
+    expect(dataCustomId.toString(options)).toBe(`rawId?a=${"a".repeat(30)}`);
+    expect(dataCustomId.getFields()).toHaveProperty("b");
+  });
+
+  test("doesn't drop fields when it fits", () => {
+    const dataCustomId = new DataCustomId("rawId").addFields({ a: "a", b: "b" });
+
+    expect(dataCustomId.toString({ droppableFields: ["a"] })).toBe("rawId?a=a&b=b");
+  });
+
+  test("truncates truncatable fields with an ellipsis", () => {
+    const dataCustomId = new DataCustomId("rawId").addFields({ user: "1", reason: "spam ".repeat(30) });
+    const id = dataCustomId.toString({ truncatableFields: ["reason"] });
+
+    expect(id).toHaveLength(100);
+    expect(new DataCustomId(id).getStringField("reason")).toBe(`${"spam ".repeat(15)}spam…`);
+  });
+
+  test("truncates escaped fields", () => {
+    const dataCustomId = new DataCustomId("rawId", { escape: true }).addField("reason", ",".repeat(60));
+    const id = dataCustomId.toString({ truncatableFields: ["reason"] });
+
+    expect(id.length).toBeLessThanOrEqual(100);
+    expect(new DataCustomId(id, { escape: true }).getStringField("reason")).toBe(`${",".repeat(43)}…`);
+  });
+
+  test("still throws if it can't fit", () => {
+    const dataCustomId = new DataCustomId("rawId").addFields({ a: "a".repeat(100), b: BigInt(1) });
+
+    expect(() => dataCustomId.toString({ droppableFields: ["b"], truncatableFields: ["b"] })).toThrow(
+      DataCustomIdLengthError
+    );
+  });
+
+  test("drops and truncates before storing", () => {
+    const store = new MemoryStateStore();
+    const dataCustomId = new DataCustomId("rawId", { store }).addFields({ a: "a".repeat(100), b: "b" });
+
+    expect(dataCustomId.toString({ droppableFields: ["a"] })).toBe("rawId?b=b");
+  });
+});
+
+describe("clone", () => {
+  test("copies fields, options and expiry", () => {
+    const signing = { secret: "secret" };
+    const dataCustomId = DataCustomId.create("ban/confirm", { signing })
+      .addFields({ user: "1", roles: ["a", "b"] })
+      .setExpiresAt(2000);
+    const clone = dataCustomId.clone();
+
+    expect(clone).not.toBe(dataCustomId);
+    expect(clone.toString()).toBe(dataCustomId.toString());
+  });
+
+  test("changing the clone doesn't change the original", () => {
+    const dataCustomId = new DataCustomId("rawId").addField("roles", ["a"]);
+    const clone = dataCustomId.clone().addField("user", "1");
+    (clone.getFields().roles as string[]).push("b");
+
+    expect(dataCustomId.getFields()).toStrictEqual({ roles: ["a"] });
+  });
+
+  test("with a different raw ID", () => {
+    const clone = new DataCustomId("ban/confirm?user=1").clone("kick/confirm");
+
+    expect(clone.pathParts).toStrictEqual(["kick", "confirm"]);
+    expect(clone.toString()).toBe("kick/confirm?user=1");
+  });
+});
+
+describe("encryption", () => {
+  const encryption = { key: "key" };
+
+  test("encrypts every field into $x", () => {
+    const id = new DataCustomId("ban/confirm", { encryption })
+      .addFields({ user: "42390489028347289", reason: "spam" })
+      .toString();
+
+    expect(id).toMatch(/^ban\/confirm\?\$x=[\w-]+$/);
+    expect(id).not.toContain("42390489028347289");
+    expect(new DataCustomId(id, { encryption }).getFields()).toStrictEqual({
+      user: "42390489028347289",
+      reason: "spam",
+    });
+  });
+
+  test("encrypts selected fields", () => {
+    const options = { encryption: { key: "key", fields: ["user"] } };
+    const id = new DataCustomId("ban/confirm", options)
+      .addFields({ user: "42390489028347289", reason: "spam" })
+      .toString();
+
+    expect(id).toMatch(/^ban\/confirm\?reason=spam&\$x=[\w-]+$/);
+    expect(new DataCustomId(id, options).getFields()).toStrictEqual({
+      reason: "spam",
+      user: "42390489028347289",
+    });
+  });
+
+  test("doesn't encrypt custom IDs without encrypted fields", () => {
+    const options = { encryption: { key: "key", fields: ["user"] } };
+
+    expect(new DataCustomId("ban/confirm", options).addField("reason", "spam").toString()).toBe("ban/confirm?reason=spam");
+  });
+
+  test("works with typed fields, aliases, signing and expiry", () => {
+    const options = {
+      encryption,
+      typed: true,
+      aliases: new DataCustomIdAliases({ user: "u" }),
+      signing: { secret: "secret" },
+      clock: () => 0,
+    };
+    const id = DataCustomId.create("ban/confirm", options).addFields({ user: BigInt(42), days: 7 }).setExpiresIn(60_000).toString();
+    const dataCustomId = new DataCustomId(id, options);
+
+    expect(dataCustomId.getFields()).toStrictEqual({ user: BigInt(42), days: 7 });
+    expect(dataCustomId.expiresAt).toStrictEqual(new Date(60_000));
+  });
+
+  test("rejects edited ciphertext", () => {
+    const id = new DataCustomId("ban/confirm", { encryption }).addField("user", "1").toString();
+    // a character in the middle, since the last one has unused bits
+    const index = id.indexOf("$x=") + 20;
+    const edited = id.slice(0, index) + (id[index] === "A" ? "B" : "A") + id.slice(index + 1);
+
+    expect(() => new DataCustomId(edited, { encryption })).toThrow(DataCustomIdDecryptionError);
+    expect(() => new DataCustomId("ban/confirm?$x=short", { encryption })).toThrow(DataCustomIdDecryptionError);
+  });
+
+  test("rejects encrypted fields moved to another custom ID", () => {
+    const clock = () => 0;
+    const id = new DataCustomId("ban/confirm", { encryption, clock }).addField("user", "1").setExpiresIn(60_000).setOwner("1").toString();
+    const secret = (id.match(/\$x=[\w-]+/) as RegExpMatchArray)[0];
+
+    expect(new DataCustomId(id, { encryption }).getStringField("user")).toBe("1");
+    expect(() => new DataCustomId(id.replace("ban/confirm", "ban/cancel"), { encryption })).toThrow(DataCustomIdDecryptionError);
+    expect(() => new DataCustomId(`ban/confirm?${secret}`, { encryption })).toThrow(DataCustomIdDecryptionError);
+    expect(() => new DataCustomId(id.replace("&$o=1", ""), { encryption })).toThrow(DataCustomIdDecryptionError);
+    expect(() => new DataCustomId(id.replace("$e=", "$e=1"), { encryption })).toThrow(DataCustomIdDecryptionError);
+  });
+
+  test("rejects encrypted fields without encryption or with another key", () => {
+    const id = new DataCustomId("ban/confirm", { encryption }).addField("user", "1").toString();
+
+    expect(() => new DataCustomId(id)).toThrow(DataCustomIdDecryptionError);
+    expect(() => new DataCustomId(id, { encryption: { key: "other" } })).toThrow(DataCustomIdDecryptionError);
+  });
+
+  test("rotates keys", () => {
+    const oldId = new DataCustomId("ban/confirm", { encryption: { key: "old" } }).addField("user", "1").toString();
+    const rotated = { key: ["new", "old"] };
+
+    expect(new DataCustomId(oldId, { encryption: rotated }).getStringField("user")).toBe("1");
+
+    const newId = new DataCustomId("ban/confirm", { encryption: rotated }).addField("user", "1").toString();
+    expect(new DataCustomId(newId, { encryption: { key: "new" } }).getStringField("user")).toBe("1");
+    expect(() => new DataCustomId(newId, { encryption: { key: "old" } })).toThrow(DataCustomIdDecryptionError);
+  });
+
+  test("counts the ciphertext towards the limit", () => {
+    const dataCustomId = new DataCustomId("ban/confirm", { encryption }).addField("reason", "x".repeat(40));
+    const measurement = dataCustomId.measure();
+
+    expect(new DataCustomId("ban/confirm").addField("reason", "x".repeat(40)).toString()).toHaveLength(59);
+    expect(() => dataCustomId.toString()).toThrow(DataCustomIdLengthError);
+    expect(measurement.fields).toStrictEqual({ $x: measurement.length - "ban/confirm?".length });
+    expect(measurement.length).toBe(dataCustomId.toString({ maxLength: 200 }).length);
+    expect(dataCustomId.toString({ truncatableFields: ["reason"] }).length).toBeLessThanOrEqual(100);
+  });
+
+  test("stores encrypted fields that don't fit", () => {
+    const store = new MemoryStateStore();
+    const options = { encryption, store };
+    const id = new DataCustomId("ban/confirm", options).addField("reason", "x".repeat(100)).toString();
+
+    expect(id).toMatch(/^ban\/confirm\?\$t=/);
+    expect(new DataCustomId(id, options).getStringField("reason")).toBe("x".repeat(100));
+    expect(() => new DataCustomId(id.replace("ban/confirm", "ban/cancel"), options)).toThrow(DataCustomIdDecryptionError);
+  });
+});
+
+describe("flags and enum fields", () => {
+  const settings = ["pings", "dms", "embeds", "threads", "polls", "voice", "stage", "events", "forum", "media", "nsfw", "logs"] as const;
+  const themes = ["light", "dark", "ash", "onyx"] as const;
+
+  test("packs flags into one field", () => {
+    const dataCustomId = new DataCustomId("settings").addFlagsField("f", { pings: true, dms: false, logs: true }, settings);
+
+    expect(dataCustomId.toString()).toBe("settings?f=X3");
+    expect(new DataCustomId(dataCustomId.toString()).getFlagsField("f", settings)).toStrictEqual({
+      pings: true,
+      dms: false,
+      embeds: false,
+      threads: false,
+      polls: false,
+      voice: false,
+      stage: false,
+      events: false,
+      forum: false,
+      media: false,
+      nsfw: false,
+      logs: true,
+    });
+  });
+
+  test("keeps flags that are all false", () => {
+    const id = new DataCustomId("settings").addFlagsField("f", {}, settings).toString();
+
+    expect(id).toBe("settings?f=0");
+    expect(Object.values(new DataCustomId(id).getFlagsField("f", settings))).not.toContain(true);
+  });
+
+  test("reads missing or invalid flags as false", () => {
+    expect(new DataCustomId("settings").getFlagsField("f", ["a"])).toStrictEqual({ a: false });
+    expect(new DataCustomId("settings?f=-1").getFlagsField("f", ["a"])).toStrictEqual({ a: false });
+    expect(new DataCustomId("settings?f=!").getFlagsField("f", ["a"])).toStrictEqual({ a: false });
+  });
+
+  test("packs more than 53 flags", () => {
+    const names = Array.from({ length: 70 }, (_, i) => `flag${i}`);
+    const id = new DataCustomId("settings").addFlagsField("f", { flag0: true, flag69: true }, names).toString();
+    const flags = new DataCustomId(id).getFlagsField("f", names);
+
+    expect(flags.flag0).toBe(true);
+    expect(flags.flag1).toBe(false);
+    expect(flags.flag69).toBe(true);
+  });
+
+  test("throws for unknown flags", () => {
+    expect(() => new DataCustomId("settings").addFlagsField("f", { a: true } as { b?: boolean }, ["b"])).toThrow();
+  });
+
+  test("encodes enums as one character", () => {
+    const dataCustomId = new DataCustomId("settings").addEnumField("t", "onyx", themes);
+
+    expect(dataCustomId.toString()).toBe("settings?t=3");
+    expect(new DataCustomId("settings?t=3").getEnumField("t", themes)).toBe("onyx");
+    expect(new DataCustomId("settings?t=0").getEnumField("t", themes)).toBe("light");
+  });
+
+  test("reads missing or unknown enums as undefined", () => {
+    expect(new DataCustomId("settings").getEnumField("t", themes)).toBeUndefined();
+    expect(new DataCustomId("settings?t=9").getEnumField("t", themes)).toBeUndefined();
+    expect(new DataCustomId("settings?t=-1").getEnumField("t", themes)).toBeUndefined();
+  });
+
+  test("throws for values that aren't choices", () => {
+    expect(() => new DataCustomId("settings").addEnumField("t", "pink" as "light", themes)).toThrow();
+  });
+
+  test("round-trips with compactIntegers", () => {
+    for (const options of [{}, { typed: true }]) {
+      const flags = { pings: true, dms: true, stage: true };
+      const id = new DataCustomId("settings", options).addFlagsField("f", flags, settings).addEnumField("t", "onyx", themes).toString({ compactIntegers: true });
+      const dataCustomId = new DataCustomId(id, options);
+
+      expect(dataCustomId.getFlagsField("f", settings)).toMatchObject({ ...flags, polls: false });
+      expect(dataCustomId.getEnumField("t", themes)).toBe("onyx");
+    }
+  });
+
+  test("round-trips with typed and escape", () => {
+    for (const options of [{ typed: true }, { escape: true }]) {
+      const id = new DataCustomId("settings", options).addFlagsField("f", { dms: true }, settings).addEnumField("t", "dark", themes).toString();
+      const dataCustomId = new DataCustomId(id, options);
+
+      expect(dataCustomId.getFlagsField("f", settings).dms).toBe(true);
+      expect(dataCustomId.getEnumField("t", themes)).toBe("dark");
+    }
+  });
+});
+
+describe("date and duration fields", () => {
+  const discordEpoch = 1420070400000;
+
+  test("encodes dates relative to Discord's epoch", () => {
+    const date = new Date("2024-01-01T00:00:00.999Z");
+    const id = new DataCustomId("ban").addDateField("at", date).toString();
+
+    expect(id).toMatch(/^ban\?at=[0-9A-Za-z]{5}$/);
+    expect(new DataCustomId(id).getDateField("at")).toStrictEqual(new Date("2024-01-01T00:00:00.000Z"));
+    expect(new DataCustomId("ban").addDateField("at", discordEpoch + 61000).toString()).toBe("ban?at=z");
+  });
+
+  test("encodes dates before the epoch", () => {
+    const id = new DataCustomId("ban").addDateField("at", 0).toString();
+
+    expect(new DataCustomId(id).getDateField("at")).toStrictEqual(new Date(0));
+  });
+
+  test("epoch option", () => {
+    const options = { epoch: 0 };
+    const id = new DataCustomId("ban", options).addDateField("at", 62000).toString();
+
+    expect(id).toBe("ban?at=10");
+    expect(new DataCustomId(id, options).getDateField("at")).toStrictEqual(new Date(62000));
+  });
+
+  test("round-trips with compactIntegers", () => {
+    for (const options of [{ epoch: 0 }, { epoch: 0, typed: true }]) {
+      const id = new DataCustomId("ban", options)
+        .addDateField("at", 62000)
+        .addDurationField("ms", 1500)
+        .addDurationField("d", 7 * 86400000)
+        .toString({ compactIntegers: true });
+      const dataCustomId = new DataCustomId(id, options);
+
+      expect(dataCustomId.getDateField("at")).toStrictEqual(new Date(62000));
+      expect(dataCustomId.getDurationField("ms")).toBe(1500);
+      expect(dataCustomId.getDurationField("d")).toBe(7 * 86400000);
+    }
+  });
+
+  test("reads missing or invalid dates as invalid dates", () => {
+    expect(new DataCustomId("ban").getDateField("at").getTime()).toBeNaN();
+    expect(new DataCustomId("ban?at=!").getDateField("at").getTime()).toBeNaN();
+  });
+
+  test("throws for invalid dates", () => {
+    expect(() => new DataCustomId("ban").addDateField("at", new Date(NaN))).toThrow();
+  });
+
+  test("encodes durations in the largest whole unit", () => {
+    const dataCustomId = new DataCustomId("ban")
+      .addDurationField("d", 7 * 86400000)
+      .addDurationField("h", 36 * 3600000)
+      .addDurationField("m", 90 * 60000)
+      .addDurationField("s", 45000)
+      .addDurationField("ms", 1500)
+      .addDurationField("zero", 0)
+      .addDurationField("negative", -60000);
+    const id = dataCustomId.toString();
+
+    expect(id).toBe("ban?d=7d&h=36h&m=90m&s=45s&ms=1500&zero=0&negative=-1m");
+
+    const parsed = new DataCustomId(id);
+    expect(parsed.getDurationField("d")).toBe(7 * 86400000);
+    expect(parsed.getDurationField("h")).toBe(36 * 3600000);
+    expect(parsed.getDurationField("m")).toBe(90 * 60000);
+    expect(parsed.getDurationField("s")).toBe(45000);
+    expect(parsed.getDurationField("ms")).toBe(1500);
+    expect(parsed.getDurationField("zero")).toBe(0);
+    expect(parsed.getDurationField("negative")).toBe(-60000);
+  });
+
+  test("rounds durations to whole milliseconds", () => {
+    expect(new DataCustomId("ban").addDurationField("d", 1.6).toString()).toBe("ban?d=2");
+  });
+
+  test("reads missing or invalid durations as NaN", () => {
+    expect(new DataCustomId("ban").getDurationField("d")).toBeNaN();
+    expect(new DataCustomId("ban?d=7w").getDurationField("d")).toBeNaN();
+    expect(new DataCustomId("ban?d=1.5h").getDurationField("d")).toBeNaN();
+  });
+
+  test("throws for durations that aren't finite", () => {
+    expect(() => new DataCustomId("ban").addDurationField("d", Infinity)).toThrow();
+  });
+
+  test("round-trips with typed", () => {
+    const options = { typed: true };
+    const id = new DataCustomId("ban", options).addDateField("at", discordEpoch - 5000).addDurationField("for", 60000).toString();
+    const dataCustomId = new DataCustomId(id, options);
+
+    expect(dataCustomId.getDateField("at")).toStrictEqual(new Date(discordEpoch - 5000));
+    expect(dataCustomId.getDurationField("for")).toBe(60000);
+  });
+});
+
+describe("codecs", () => {
+  const positional = new PositionalCodec(["user", "reason"]);
+  const codecs = new DataCustomIdCodecs(positional);
+
+  test("encodes with the current codec, after its marker", () => {
+    const id = new DataCustomId("ban", { codecs }).addFields({ user: "1", reason: "spam" }).setExpiresAt(1000).toString();
+
+    expect(id).toBe("ban?.1.spam&$e=1");
+    expect(new DataCustomId(id, { codecs }).getFields()).toStrictEqual({ user: "1", reason: "spam" });
+    expect(new DataCustomId(id, { codecs }).expiresAt).toStrictEqual(new Date(1000));
+  });
+
+  test("parses custom IDs encoded as query strings", () => {
+    expect(new DataCustomId("ban?user=1&reason=spam", { codecs }).getFields()).toStrictEqual({ user: "1", reason: "spam" });
+  });
+
+  test("parses custom IDs encoded with an older codec", () => {
+    const old = new DataCustomId("ban", { codecs }).addField("user", "1").toString();
+    const newCodecs = new DataCustomIdCodecs(new PositionalCodec(["reason", "user"], "*")).add(positional);
+
+    expect(new DataCustomId("ban", { codecs: newCodecs }).addField("user", "1").toString()).toBe("ban?*.1");
+    expect(new DataCustomId(old, { codecs: newCodecs }).getFields()).toStrictEqual({ user: "1" });
+  });
+
+  test("works with signing, encryption, typed values and stored fields", () => {
+    const store = new MemoryStateStore();
+    const options = { codecs, store, typed: true, signing: { secret: "secret" }, encryption: { key: "key", fields: ["reason"] } };
+    const fields = { user: BigInt(1), reason: "spam".repeat(30) };
+    const id = DataCustomId.create("ban", options).addFields(fields).toString();
+
+    expect(id.startsWith("ban?.&$t=")).toBe(true);
+    expect(new DataCustomId(id, options).getFields()).toStrictEqual(fields);
+    expect(DataCustomId.create("ban", options).addField("user", 1).toString().startsWith("ban?.!!1~")).toBe(true);
+  });
+
+  test("measures with the codec", () => {
+    const dataCustomId = new DataCustomId("ban", { codecs }).addFields({ reason: "spam", other: "x" }).setExpiresAt(1000);
+
+    expect(dataCustomId.measure()).toMatchObject({
+      length: dataCustomId.toString().length,
+      fields: { reason: 4, other: 7 },
+      metaFields: 4,
+      separators: 5,
+    });
+  });
+});
+
+describe("ownership", () => {
+  test("encodes the owner compactly", () => {
+    const id = new DataCustomId("ban/confirm").setOwner("42390489028347289").toString();
+
+    expect(id).toBe("ban/confirm?$o=389EKWzMNN");
+    expect(new DataCustomId(id).owner).toStrictEqual({ userId: "42390489028347289" });
+  });
+
+  test("encodes roles and guilds", () => {
+    const owner = { roleId: "2", guildId: "3" };
+    const id = new DataCustomId("ban").addField("user", "1").setOwner(owner).toString();
+
+    expect(id).toBe("ban?user=1&$o=.2.3");
+    expect(new DataCustomId(id).owner).toStrictEqual(owner);
+    expect(new DataCustomId("ban").setOwner({ userId: "1", roleId: "2" }).toString()).toBe("ban?$o=1.2");
+  });
+
+  test("checks who owns it", () => {
+    const user = new DataCustomId("ban").setOwner("1");
+    expect(user.isOwnedBy("1")).toBe(true);
+    expect(user.isOwnedBy({ userId: "2", roleIds: ["1"] })).toBe(false);
+
+    const role = new DataCustomId("ban").setOwner({ userId: "1", roleId: "5", guildId: "9" });
+    expect(role.isOwnedBy({ userId: "1", guildId: "9" })).toBe(true);
+    expect(role.isOwnedBy({ userId: "2", roleIds: ["5"], guildId: "9" })).toBe(true);
+    expect(role.isOwnedBy({ userId: "2", roleIds: ["6"], guildId: "9" })).toBe(false);
+    expect(role.isOwnedBy({ userId: "1", guildId: "8" })).toBe(false);
+    expect(role.isOwnedBy("1")).toBe(false);
+
+    const guild = new DataCustomId("ban").setOwner({ guildId: "9" });
+    expect(guild.isOwnedBy({ userId: "2", guildId: "9" })).toBe(true);
+    expect(guild.isOwnedBy({ userId: "2", guildId: null })).toBe(false);
+
+    expect(new DataCustomId("ban").isOwnedBy("1")).toBe(true);
+  });
+
+  test("rejects others with clickedBy", () => {
+    const id = new DataCustomId("ban").setOwner("1").toString();
+
+    expect(new DataCustomId(id, { clickedBy: "1" }).owner).toStrictEqual({ userId: "1" });
+    expect(() => new DataCustomId(id, { clickedBy: "2" })).toThrow(DataCustomIdOwnershipError);
+    expect(() => new DataCustomId(id, { clickedBy: { userId: "2" } })).toThrow(DataCustomIdOwnershipError);
+    expect(new DataCustomId("ban?user=1", { clickedBy: "2" }).getFields()).toStrictEqual({ user: "1" });
+    expect(new DataCustomId("ban", { clickedBy: "2" }).rawId).toBe("ban");
+  });
+
+  test("unreadable owners own nothing", () => {
+    const dataCustomId = new DataCustomId("ban?$o=1.!!");
+
+    expect(dataCustomId.owner).toStrictEqual({});
+    expect(dataCustomId.isOwnedBy("1")).toBe(false);
+    expect(() => new DataCustomId("ban?$o=", { clickedBy: "1" })).toThrow(DataCustomIdOwnershipError);
+  });
+
+  test("throws for invalid owners", () => {
+    expect(() => new DataCustomId("ban").setOwner("me")).toThrow();
+    expect(() => new DataCustomId("ban").setOwner({})).toThrow();
+  });
+
+  test("keeps the owner with signing, stored fields and clones", () => {
+    const options = { signing: { secret: "secret" }, store: new MemoryStateStore() };
+    const dataCustomId = DataCustomId.create("ban", options).addField("reason", "spam".repeat(30)).setOwner("1");
+    const id = dataCustomId.toString();
+
+    expect(id).toMatch(/^ban\?\$t=[\w-]+&\$o=1~/);
+    expect(new DataCustomId(id, { ...options, clickedBy: "1" }).getFields()).toStrictEqual({ reason: "spam".repeat(30) });
+    expect(() => new DataCustomId(id.replace("$o=1", "$o=2"), options)).toThrow(DataCustomIdSignatureError);
+    expect(dataCustomId.clone().owner).toStrictEqual({ userId: "1" });
+    expect(dataCustomId.measure().metaFields).toBe(4);
+  });
+});
+
+describe("single use", () => {
+  test("encodes a nonce", () => {
+    const customId = new DataCustomId("ban/confirm").addField("user", "1").setSingleUse();
+    const id = customId.toString();
+
+    expect(customId.nonce).toMatch(/^[\w-]{8}$/);
+    expect(id).toBe(`ban/confirm?user=1&$n=${customId.nonce}`);
+    expect(new DataCustomId(id).nonce).toBe(customId.nonce);
+    expect(new DataCustomId(id).getFields()).toStrictEqual({ user: "1" });
+    expect(new DataCustomId("ban").setSingleUse().nonce).not.toBe(customId.nonce);
+  });
+
+  test("can only be consumed once", () => {
+    const store = new MemoryNonceStore();
+    const id = new DataCustomId("ban/confirm").setSingleUse().toString();
+
+    expect(new DataCustomId(id).consume(store).rawId).toBe("ban/confirm");
+    expect(() => new DataCustomId(id).consume(store)).toThrow(DataCustomIdConsumedError);
+    expect(() => new DataCustomId("ban/confirm?user=1").consume(store).consume(store)).not.toThrow();
+  });
+
+  test("defaults to an in-memory store", () => {
+    const id = new DataCustomId("ban/confirm").setSingleUse().toString();
+
+    new DataCustomId(id).consume();
+    expect(() => new DataCustomId(id).consume()).toThrow(DataCustomIdConsumedError);
+  });
+
+  test("consumes with async stores", async () => {
+    const used = new Set<string>();
+    const store = {
+      consume: async (nonce: string) => !used.has(nonce) && !!used.add(nonce),
+    };
+    const id = new DataCustomId("ban/confirm").setSingleUse().toString();
+
+    expect(() => new DataCustomId(id).consume(store)).toThrow(DataCustomIdStoreError);
+    await expect(new DataCustomId(id).consumeAsync(store)).rejects.toThrow(DataCustomIdConsumedError);
+    await expect(new DataCustomId("ban").consumeAsync(store)).resolves.toBeInstanceOf(DataCustomId);
+  });
+
+  test("counts the nonce against the length limit", () => {
+    const customId = new DataCustomId("ban").addField("reason", "a".repeat(85));
+
+    expect(customId.toString()).toHaveLength(96);
+    expect(() => customId.setSingleUse().toString()).toThrow(DataCustomIdLengthError);
+    expect(customId.measure().metaFields).toBe(11);
+  });
+
+  test("keeps the nonce when signed, stored or cloned", () => {
+    const options = { signing: { secret: "secret" }, store: new MemoryStateStore() };
+    const customId = DataCustomId.create("ban", options).addField("reason", "a".repeat(100)).setSingleUse();
+    const id = customId.toString();
+
+    expect(id).toContain(`$n=${customId.nonce}`);
+    expect(new DataCustomId(id, options).nonce).toBe(customId.nonce);
+    expect(() => new DataCustomId(id.replace("$n=", "$n=x"), options)).toThrow(DataCustomIdSignatureError);
+    expect(customId.clone().nonce).toBe(customId.nonce);
+  });
+});
+
+describe("strict parsing", () => {
+  const parseError = (id: string, options: DataCustomIdOptions = { strict: true }) => {
+    try {
+      new DataCustomId(id, options);
+    } catch (e) {
+      return e as DataCustomIdParseError;
+    }
+    throw new Error(`${id} was parsed`);
+  };
+
+  test("accepts custom IDs DataCustomId builds", () => {
+    const options = { strict: true, typed: true, signing: { secret: "secret" } };
+    const id = DataCustomId.create("ban/confirm", options)
+      .addFields({ user: BigInt(1), roles: ["a", "b"], silent: true })
+      .setExpiresAt(0)
+      .setOwner("1")
+      .toString();
+
+    expect(new DataCustomId(id, options).getFields()).toStrictEqual({ user: BigInt(1), roles: ["a", "b"], silent: true });
+    expect(new DataCustomId("ban/confirm", { strict: true }).rawId).toBe("ban/confirm");
+  });
+
+  test("rejects malformed fields with where they are", () => {
+    expect(parseError("ban&user=1")).toMatchObject({ name: "DataCustomIdParseError", segment: "&", position: 3 });
+    expect(parseError("ban&x?a=1").message).toBe("DataCustomId's raw ID has an & at 3: ban&x");
+    expect(parseError("ban?user=1&&days=7")).toMatchObject({ segment: "", position: 11 });
+    expect(parseError("ban?=1")).toMatchObject({ segment: "=1", position: 4 });
+    expect(parseError("ban?user=1&user=2")).toMatchObject({ segment: "user=2", position: 11 });
+    expect(parseError("ban?user[id]=1")).toMatchObject({ segment: "user[id]=1", position: 4 });
+    expect(parseError("ban?user=1&")).toBeInstanceOf(DataCustomIdParseError);
+    expect(parseError("ban?user=1&user=2").message).toBe("DataCustomId has a repeated key at 11: user=2");
+  });
+
+  test("limits fields, arrays and nesting", () => {
+    const fields = Array.from({ length: 51 }, (_, i) => `f${i}=1`).join("&");
+    const array = Array.from({ length: 51 }, (_, i) => i).join(",");
+
+    expect(parseError(`ban?${fields}`)).toMatchObject({ segment: "f50=1", position: 4 + fields.indexOf("f50=1") });
+    expect(parseError(`ban?roles=${array}`).message).toContain("over 50 values");
+    expect(parseError("ban?a=1&b=2&c=3", { strict: { maxFields: 2 } }).segment).toBe("c=3");
+    expect(parseError("ban?roles=a,b", { strict: { maxArrayLength: 1 } }).segment).toBe("roles=a,b");
+    expect(new DataCustomId("ban?user[id]=1", { strict: { maxDepth: 1 } }).getFields()).toStrictEqual({ user: { id: "1" } });
+    expect(parseError("ban?user[a][b]=1", { strict: { maxDepth: 1 } })).toBeInstanceOf(DataCustomIdParseError);
+  });
+
+  test("checks fields of other codecs after parsing", () => {
+    const codecs = new DataCustomIdCodecs(new PositionalCodec(["user", "roles"]));
+
+    expect(new DataCustomId("ban?.1.a,b&$e=1", { strict: true, codecs }).getFields()).toStrictEqual({ user: "1", roles: ["a", "b"] });
+    expect(parseError("ban?.1&user=2&user=3", { strict: true, codecs })).toMatchObject({ segment: "user=3", position: 14 });
+    expect(parseError("ban?.1.a,b", { strict: { maxArrayLength: 1 }, codecs })).toMatchObject({ segment: ".1.a,b", position: 4 });
+  });
+
+  test("is off by default", () => {
+    expect(new DataCustomId("ban?user=1&user=2").getFields()).toStrictEqual({ user: ["1", "2"] });
+    expect(new DataCustomId("ban&x?=1").rawId).toBe("ban&x");
+  });
+});
+
+describe("tryParse", () => {
+  test("returns the parsed custom ID", () => {
+    const result = DataCustomId.tryParse("ban?user=1", { strict: true });
+
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.customId.getFields()).toStrictEqual({ user: "1" });
+  });
+
+  test("returns why it couldn't be parsed", () => {
+    const malformed = DataCustomId.tryParse("ban?=1", { strict: true });
+    const unsigned = DataCustomId.tryParse("ban?user=1", { signing: { secret: "secret" } });
+
+    expect(!malformed.ok && malformed.error).toBeInstanceOf(DataCustomIdParseError);
+    expect(!unsigned.ok && unsigned.error).toBeInstanceOf(DataCustomIdSignatureError);
+  });
+});
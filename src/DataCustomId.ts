@@ -1,9 +1,54 @@
-import { parse, stringify } from "qs";
-type DataCustomIdFieldValue = string | string[];
-type EncodableDataCustomIdFieldValue =
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "crypto";
+import { decodeBase62, encodeBase62 } from "./base62";
+import {
+  DataCustomIdAliasError,
+  DataCustomIdAliases,
+} from "./DataCustomIdAliases";
+import {
+  DataCustomIdCodec,
+  DataCustomIdCodecs,
+  defaultCodec,
+  PositionalCodec,
+  QueryStringCodec,
+} from "./DataCustomIdCodecs";
+import {
+  DataCustomIdMigration,
+  DataCustomIdMigrations,
+} from "./DataCustomIdMigrations";
+import {
+  DataCustomIdNonceStore,
+  MemoryNonceStore,
+} from "./DataCustomIdNonceStore";
+import {
+  DataCustomIdStateStore,
+  JsonFileStateStore,
+  MemoryStateStore,
+} from "./DataCustomIdStateStore";
+
+export { DataCustomIdAliasError, DataCustomIdAliases };
+export {
+  DataCustomIdCodec,
+  DataCustomIdCodecs,
+  PositionalCodec,
+  QueryStringCodec,
+};
+export { DataCustomIdMigration, DataCustomIdMigrations };
+export { DataCustomIdNonceStore, MemoryNonceStore };
+export { DataCustomIdStateStore, JsonFileStateStore, MemoryStateStore };
+export type DataCustomIdFieldValue = string | string[];
+export type EncodableDataCustomIdFieldValue =
   | boolean
   | number
   | number[]
+  | bigint
+  | bigint[]
   | null
   | DataCustomIdFieldValue;
 
@@ -43,13 +88,298 @@ export interface DataCustomIdEncodeOptions {
    * @default false
    */
   convertTrueToOne?: boolean;
+  /**
+   * Saves space by encoding integers (including bigints, like snowflakes) in base 62,
+   * using the characters `0-9`, `A-Z` and `a-z`. Add snowflakes as bigints, like `BigInt(user.id)`,
+   * since strings are left as they are.
+   *
+   * A snowflake like `42390489028347289` takes 10 characters instead of 17.
+   *
+   * Defaults to `false`, because encoded integers must be read with base `62`, using
+   * `getSnowflakeField`, `getSnowflakeArrayField`, `getNumericField` or `getNumericArrayField`.
+   * With `typed`, they're marked, so they're read back as they were added, and strings of digits
+   * without leading zeros are encoded too.
+   *
+   * @default false
+   */
+  compactIntegers?: boolean;
+  /**
+   * The most characters the encoded custom ID may have, for contexts with a lower limit
+   * than custom IDs, like select menu option values with extra text.
+   *
+   * @default 100
+   */
+  maxLength?: number;
+  /**
+   * Low-priority fields that are left out, in order, until the custom ID fits in `maxLength`.
+   * Only fields in this list are dropped, and only when the custom ID doesn't fit.
+   */
+  droppableFields?: string[];
+  /**
+   * String fields that are shortened, in order, and end with `…` until the custom ID fits in `maxLength`.
+   * Truncation happens after dropping `droppableFields`, and before using the `store`.
+   */
+  truncatableFields?: string[];
 }
 
 export const defaultEncodeOptions: DataCustomIdEncodeOptions = {
   skipFalsyValues: true,
   convertTrueToOne: false,
+  compactIntegers: false,
 };
 
+export interface DataCustomIdSigningOptions {
+  /**
+   * The secret used to sign custom IDs.
+   *
+   * To rotate secrets, pass an array: the first secret signs new custom IDs,
+   * and custom IDs signed with any of the secrets are accepted.
+   * Once old buttons are gone, remove the old secret from the array.
+   */
+  secret: string | string[];
+  /**
+   * How many characters of the HMAC to keep.
+   * Longer signatures are harder to guess, but use more of the 100-character limit.
+   *
+   * @default 8
+   */
+  signatureLength?: number;
+}
+
+export interface DataCustomIdEncryptionOptions {
+  /**
+   * The key used to encrypt fields. Any string works, since it's hashed into an AES-256 key,
+   * but it should be long and random, like a signing secret.
+   *
+   * To rotate keys, pass an array: the first key encrypts new custom IDs,
+   * and custom IDs encrypted with any of the keys can be decrypted.
+   * Once old buttons are gone, remove the old key from the array.
+   */
+  key: string | string[];
+  /**
+   * The names of the fields to encrypt. By default, every field is encrypted.
+   */
+  fields?: string[];
+}
+
+/**
+ * Who may use a custom ID, set with `setOwner`. Users who match `userId` or have `roleId` may use it,
+ * but only in `guildId`, if it's set.
+ */
+export interface DataCustomIdOwner {
+  /**
+   * The ID of the user who may use the custom ID.
+   */
+  userId?: string;
+  /**
+   * The ID of a role whose members may use the custom ID.
+   */
+  roleId?: string;
+  /**
+   * The ID of the guild the custom ID may be used in.
+   */
+  guildId?: string;
+}
+
+/**
+ * A user using a custom ID, like the user who clicked a button.
+ */
+export interface DataCustomIdUser {
+  /**
+   * The user's ID.
+   */
+  userId: string;
+  /**
+   * The IDs of the user's roles, in the guild the custom ID was used in.
+   */
+  roleIds?: readonly string[];
+  /**
+   * The ID of the guild the custom ID was used in, or `undefined` or `null` in DMs.
+   */
+  guildId?: string | null;
+}
+
+/**
+ * Limits on what strict parsing accepts, since custom IDs come from untrusted clients.
+ */
+export interface DataCustomIdStrictOptions {
+  /**
+   * The most fields a custom ID may have, including fields DataCustomId uses itself, like `$e`.
+   *
+   * @default 50
+   */
+  maxFields?: number;
+  /**
+   * The most values an array field may have.
+   *
+   * @default 50
+   */
+  maxArrayLength?: number;
+  /**
+   * How deeply fields may be nested, like `a[b]=1`. DataCustomId never builds nested fields.
+   *
+   * @default 0
+   */
+  maxDepth?: number;
+}
+
+/**
+ * The result of `DataCustomId.tryParse`: the parsed custom ID, or why it couldn't be parsed.
+ */
+export type DataCustomIdParseResult =
+  | { ok: true; customId: DataCustomId }
+  | { ok: false; error: Error };
+
+export interface DataCustomIdOptions {
+  /**
+   * Signs custom IDs with an HMAC, so users can't edit them.
+   *
+   * When set, `toString()` appends `~` and a signature to the custom ID,
+   * and the constructor throws a `DataCustomIdSignatureError` if a custom ID's
+   * signature is missing or wrong. Raw IDs must not contain `~`.
+   *
+   * Without it, users can edit anything in a custom ID, including the expiry, owner and nonce
+   * that `rejectExpired`, `clickedBy` and `consume` check.
+   *
+   * Build new custom IDs with `DataCustomId.create`, since they aren't signed yet.
+   */
+  signing?: DataCustomIdSigningOptions;
+  /**
+   * Stores fields that don't fit in Discord's 100-character limit.
+   *
+   * When set, `toString()` moves the fields of custom IDs that would be too long
+   * into the store under a short token, so the custom ID only carries the raw ID
+   * and the token (like `ban/confirm?$t=AbCd1234`).
+   * The constructor looks the token up and restores the fields.
+   *
+   * Use `MemoryStateStore`, `JsonFileStateStore`, or your own `DataCustomIdStateStore`.
+   * Async stores need `toStringAsync()` and `DataCustomId.parseAsync()`.
+   */
+  store?: DataCustomIdStateStore;
+  /**
+   * Escapes characters that would otherwise corrupt keys and values,
+   * so any string decodes to exactly what was added.
+   *
+   * Without escaping, a value like `spam, ads & scams` is split into an array
+   * and a new field. With escaping, `!` followed by a letter stands for each of
+   * `,`, `&`, `=`, `?`, `/`, `[` and `]`, and `!` itself is encoded as `!!`.
+   * Escapes count towards the 100-character limit.
+   *
+   * Custom IDs must be built and parsed with the same `escape` setting.
+   * Set `skipFalsyValues` to `false` to keep empty strings.
+   *
+   * @default false
+   */
+  escape?: boolean;
+  /**
+   * Adds short type markers to values, so `getFields()` returns the same
+   * numbers, bigints, booleans, `null`s and arrays (even empty or single-element ones)
+   * that were added, instead of strings.
+   *
+   * Markers start with `!`, like `!T` for `true` or `!42` for `42`, so `typed` implies `escape`.
+   * `convertTrueToOne` has no effect, since `true` is already encoded as `!T`.
+   * `skipFalsyValues` only skips `false`, `""`, `null` and `NaN`, which getters like
+   * `getBooleanField` read the same when missing. Set it to `false` to keep those too.
+   *
+   * Custom IDs must be built and parsed with the same `typed` setting.
+   *
+   * @default false
+   */
+  typed?: boolean;
+  /**
+   * Makes the constructor throw a `DataCustomIdExpiredError` for custom IDs
+   * whose expiry (set with `setExpiresIn` or `setExpiresAt`) has passed.
+   *
+   * Without it, check `isExpired()` yourself.
+   * Unsigned expiries can be edited, see `DataCustomIdOptions.signing`.
+   *
+   * @default false
+   */
+  rejectExpired?: boolean;
+  /**
+   * Returns the current time in milliseconds, used for expiry. Defaults to `Date.now`.
+   */
+  clock?: () => number;
+  /**
+   * Migrates the fields of custom IDs built with older versions of your field layout.
+   *
+   * When set, `toString()` encodes the current version (like `$v=2`), and the constructor
+   * runs the migrations from the custom ID's version to the current version.
+   * Custom IDs without a version are version 1.
+   * The constructor throws a `DataCustomIdVersionError` for versions that can't be migrated.
+   */
+  migrations?: DataCustomIdMigrations;
+  /**
+   * Short aliases for field names, so your code can use readable names like `userId`
+   * while custom IDs stay short.
+   *
+   * When set, `toString()` encodes fields under their aliases (like `u`), and the constructor
+   * decodes them back to their names, so `getFields()` and every getter use the names.
+   * `toString()` throws a `DataCustomIdAliasError` if a field's name is another field's alias.
+   *
+   * Custom IDs must be built and parsed with the same aliases.
+   */
+  aliases?: DataCustomIdAliases;
+  /**
+   * Encrypts fields with AES-256-GCM, so users can't read them (or change them without
+   * failing to decrypt).
+   *
+   * When set, `toString()` encrypts every field (or the fields listed in `fields`) into one
+   * `$x` field, and the constructor decrypts it, throwing a `DataCustomIdDecryptionError`
+   * if it can't. The IV, authentication tag and base64 encoding add about 40 characters,
+   * which count towards the 100-character limit. Raw IDs and meta fields like the expiry aren't encrypted,
+   * but encrypted fields are bound to them, so they can't be moved to another custom ID.
+   *
+   * Custom IDs must be built and parsed with the same `escape` and `typed` settings.
+   */
+  encryption?: DataCustomIdEncryptionOptions;
+  /**
+   * The time, in milliseconds since the Unix epoch, that `addDateField` encodes dates relative to.
+   * Dates near the epoch are shorter, so pick one close to the dates you store.
+   *
+   * Custom IDs must be built and parsed with the same epoch.
+   *
+   * @default 1420070400000 (Discord's epoch, the start of 2015)
+   */
+  epoch?: number;
+  /**
+   * Encodes fields with another codec than query strings, like the denser `PositionalCodec`.
+   *
+   * When set, `toString()` encodes fields with `codecs.current`, writing its marker after the `?`
+   * (like `ban?.1.spam`), and the constructor parses fields with the codec whose marker they start with.
+   * Fields without a marker are parsed as query strings, so custom IDs built before you set
+   * `codecs` keep working.
+   *
+   * Custom IDs must be parsed with every codec they may have been built with.
+   */
+  codecs?: DataCustomIdCodecs;
+  /**
+   * The user using the custom ID, like the user who clicked the button, as an ID or with their roles and guild.
+   *
+   * When set, the constructor throws a `DataCustomIdOwnershipError` for custom IDs whose owner
+   * (set with `setOwner`) isn't this user. Custom IDs without an owner are accepted.
+   * Unsigned owners can be edited, see `DataCustomIdOptions.signing`.
+   */
+  clickedBy?: string | DataCustomIdUser;
+  /**
+   * Makes the constructor throw a `DataCustomIdParseError` for malformed custom IDs, rather than
+   * parsing what it can: raw IDs with `&`, empty or repeated keys, and custom IDs over the limits
+   * on fields, array values and nesting. Pass limits to change them.
+   */
+  strict?: boolean | DataCustomIdStrictOptions;
+}
+
+/**
+ * Options used by the constructor when none are passed.
+ * Set options like `signing` here to use them everywhere.
+ */
+export const defaultOptions: DataCustomIdOptions = {};
+
+/**
+ * The nonce store `consume()` uses when none is passed, which remembers used nonces in memory for a day.
+ */
+export const defaultNonceStore: DataCustomIdNonceStore = new MemoryNonceStore();
+
 /**
  * DataCustomIdLengthError is thrown by `DataCustomId.toString()` when the
  * length of the resulting string is greater than Discord's maximum length of 100 characters.
@@ -57,10 +387,232 @@ export const defaultEncodeOptions: DataCustomIdEncodeOptions = {
 export class DataCustomIdLengthError extends Error {
   constructor(message: string) {
     super(message);
+    // the build compiles to ES5, where Error subclasses lose their prototype and instanceof fails
+    Object.setPrototypeOf(this, new.target.prototype);
     this.name = "DataCustomIdLengthError";
   }
 }
 
+/**
+ * DataCustomIdSignatureError is thrown by the `DataCustomId` constructor
+ * when signing is enabled and the custom ID's signature is missing or wrong.
+ */
+export class DataCustomIdSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdSignatureError";
+  }
+}
+
+/**
+ * DataCustomIdStoreError is thrown when fields can't be stored in or restored from a state store,
+ * like when a token's fields have expired, or an async state or nonce store is used synchronously.
+ */
+export class DataCustomIdStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdStoreError";
+  }
+}
+
+/**
+ * DataCustomIdExpiredError is thrown by the `DataCustomId` constructor
+ * when `rejectExpired` is enabled and the custom ID has expired.
+ */
+export class DataCustomIdExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdExpiredError";
+  }
+}
+
+/**
+ * DataCustomIdOwnershipError is thrown by the `DataCustomId` constructor
+ * when `clickedBy` is set, and the custom ID is owned by someone else.
+ */
+export class DataCustomIdOwnershipError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdOwnershipError";
+  }
+}
+
+/**
+ * DataCustomIdConsumedError is thrown by `consume()` when a single-use custom ID was already used,
+ * like when a button is double-clicked or replayed.
+ */
+export class DataCustomIdConsumedError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdConsumedError";
+  }
+}
+
+/**
+ * DataCustomIdParseError is thrown by the `DataCustomId` constructor when `strict` is set
+ * and the custom ID is malformed, like when it has an empty key or too many fields.
+ */
+export class DataCustomIdParseError extends Error {
+  /**
+   * The malformed part of the custom ID, like a field or an `&` in the raw ID.
+   */
+  public readonly segment: string;
+  /**
+   * Where the segment starts in the custom ID.
+   */
+  public readonly position: number;
+
+  constructor(message: string, segment = "", position = 0) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdParseError";
+    this.segment = segment;
+    this.position = position;
+  }
+}
+
+/**
+ * DataCustomIdVersionError is thrown by the `DataCustomId` constructor when `migrations`
+ * are set and the custom ID's version can't be migrated to the current version.
+ */
+export class DataCustomIdVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdVersionError";
+  }
+}
+
+/**
+ * DataCustomIdDecryptionError is thrown by the `DataCustomId` constructor when a custom ID
+ * has encrypted fields that can't be decrypted with any key, or `encryption` isn't set.
+ */
+export class DataCustomIdDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdDecryptionError";
+  }
+}
+
+const signatureSeparator = "~";
+// copies of options made by DataCustomId.create, so the constructor builds a new custom ID instead of parsing one
+const buildOptions = new WeakSet<DataCustomIdOptions>();
+const escapeCharacter = "!";
+const defaultStrictOptions: Required<DataCustomIdStrictOptions> = {
+  maxFields: 50,
+  maxArrayLength: 50,
+  maxDepth: 0,
+};
+const escapeCodes: { [character: string]: string } = {
+  "!": "!",
+  ",": "c",
+  "&": "a",
+  "=": "e",
+  "?": "q",
+  "/": "s",
+  "[": "o",
+  "]": "x",
+};
+// strings typed compactIntegers encodes in base 62, without leading zeros base 62 would lose
+const compactDigits = /^[1-9]\d*$/;
+const unescapeCodes: { [code: string]: string } = {};
+for (const character in escapeCodes) {
+  unescapeCodes[escapeCodes[character]] = character;
+}
+// field keys starting with $ are reserved for DataCustomId's own use
+const stateTokenKey = "$t";
+const expiryKey = "$e";
+const versionKey = "$v";
+const discriminatorKey = "$d";
+const encryptedKey = "$x";
+const ownerKey = "$o";
+const nonceKey = "$n";
+// the owner's IDs are encoded in this order, separated by .
+const ownerIdKeys: (keyof DataCustomIdOwner)[] = [
+  "userId",
+  "roleId",
+  "guildId",
+];
+const ownerSeparator = ".";
+const discordEpoch = 1420070400000;
+// units durations are encoded in, largest first, so 7 days is 7d
+const durationUnits: [string, number][] = [
+  ["d", 86400000],
+  ["h", 3600000],
+  ["m", 60000],
+  ["s", 1000],
+];
+// AES-256-GCM's recommended IV length, and its full authentication tag
+const ivLength = 12;
+const authTagLength = 16;
+// meta fields bound to encrypted fields, in the order they're encoded
+const encryptionContextKeys = [
+  versionKey,
+  expiryKey,
+  discriminatorKey,
+  ownerKey,
+  nonceKey,
+];
+
+/**
+ * How the encoded length of a custom ID breaks down, returned by `measure()`.
+ */
+export interface DataCustomIdMeasurement {
+  /**
+   * The length of the whole encoded custom ID.
+   */
+  length: number;
+  /**
+   * The most characters the custom ID may have (`maxLength`).
+   */
+  limit: number;
+  /**
+   * How many characters are left, which is negative if the custom ID is too long.
+   */
+  remaining: number;
+  /**
+   * The length of the raw ID.
+   */
+  rawId: number;
+  /**
+   * The length of each encoded field, like `reason=spam`, by field name.
+   * Skipped fields (like falsy values) aren't included.
+   */
+  fields: { [key: string]: number };
+  /**
+   * The length of fields DataCustomId uses itself, like the expiry.
+   */
+  metaFields: number;
+  /**
+   * The length of the `?` and `&` separators, and of the codec's marker.
+   */
+  separators: number;
+  /**
+   * The length of the signature and its separator, if `signing` is enabled.
+   */
+  signature: number;
+}
+
+interface EncodedDataCustomId {
+  id: string;
+  // set when the fields were too long and need to be stored
+  state?: { token: string; value: string };
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === "function"
+  );
+}
+
 /**
  * DataCustomId lets you store data inside Discord's Custom ID system.
  * This is useful for storing state within multi-interaction flows.
@@ -68,13 +620,14 @@ export class DataCustomIdLengthError extends Error {
  * Data is stored using a system similar to URL query strings appended to
  * the provided custom ID.
  *
- * It's important to note that you **can not** guarantee data integrity.
- * Custom IDs are sent by the client, and can be modified by users.
+ * It's important to note that you **can not** guarantee data integrity
+ * unless you enable `signing`. Custom IDs are sent by the client, and can be modified by users.
+ * Even signed custom IDs can be read by users.
  * **DO NOT INCLUDE SENSITIVE DATA IN CUSTOM IDS!**.
  *
  * Once instances are created, the raw Custom ID (`customId.rawId`) is immutable.
- * If you want to keep the current state and change the raw ID, you can
- * create a new instance with the new raw ID, then call `newCustomId.copyFieldsFrom(oldCustomId)`.
+ * If you want to keep the current state and change the raw ID, call `customId.clone(newRawId)`,
+ * or use `ImmutableDataCustomId`, whose methods all return new instances.
  *
  * @author iamtheyammer
  */
@@ -86,6 +639,38 @@ export default class DataCustomId {
 
   public readonly pathParts: string[];
   private fields: DataCustomIdFields = {};
+  private options: DataCustomIdOptions;
+  /**
+   * When the custom ID expires, or `undefined` if it doesn't.
+   * Set it with `setExpiresIn` or `setExpiresAt`.
+   */
+  public expiresAt?: Date;
+  /**
+   * An integer that makes otherwise identical custom IDs different, since Discord requires
+   * custom IDs in one message to be unique. Encoded as `$d`, and not a field.
+   */
+  public discriminator?: number;
+  /**
+   * Who may use the custom ID, or `undefined` if anyone may.
+   * Set it with `setOwner`, and check it with `isOwnedBy`.
+   */
+  public owner?: DataCustomIdOwner;
+  /**
+   * The random nonce of a single-use custom ID, or `undefined` if it can be used any number of times.
+   * Set it with `setSingleUse`, and check it with `consume`.
+   */
+  public nonce?: string;
+  private stateToken?: string;
+  private version?: number;
+  // the raw ID and meta fields as parsed, which stored encrypted fields are bound to
+  private encryptionContext = "";
+  // whether fields were parsed, rather than this being a new custom ID being built
+  private parsed = false;
+  /**
+   * Separates a signed custom ID from its signature, like `ban?user=1~AbCd1234`.
+   * @protected
+   */
+  protected static readonly signatureSeparator = signatureSeparator;
 
   /**
    * Creates a new DataCustomId instance with a given Custom ID which
@@ -96,6 +681,7 @@ export default class DataCustomId {
    *
    * If a custom ID is provided, it will be parsed,
    * allowing you to use methods like `getFields` and `addFields`.
+   * With `signing`, build new custom IDs with `DataCustomId.create` instead.
    *
    * Custom IDs with**out** data must not have `?` or `&` characters.
    * Those characters are used to store data.
@@ -104,49 +690,249 @@ export default class DataCustomId {
    * until you call `toString()`.
    *
    * @param id {string} The raw custom ID with or without fields appended.
+   * @param options {DataCustomIdOptions} Options like `signing`. Defaults to `defaultOptions`.
+   * @throws {DataCustomIdSignatureError} if signing is enabled and the custom ID's signature is missing or wrong.
+   * @throws {DataCustomIdParseError} if `strict` is set and the custom ID is malformed.
+   * @throws {DataCustomIdExpiredError} if `rejectExpired` is enabled and the custom ID has expired.
+   * @throws {DataCustomIdOwnershipError} if `clickedBy` is set and the custom ID is owned by someone else.
+   * @throws {DataCustomIdStoreError} if the custom ID's fields were stored, and can't be restored from `store`.
+   * @throws {DataCustomIdVersionError} if `migrations` are set and the custom ID's version can't be migrated.
+   * @throws {DataCustomIdDecryptionError} if the custom ID's encrypted fields can't be decrypted.
    */
-  constructor(id: string = "") {
+  constructor(id: string = "", options: DataCustomIdOptions = defaultOptions) {
+    // unmarked once read, so the options can't build another custom ID
+    const building = buildOptions.delete(options);
+    this.options = options;
+
+    if (building) {
+      if (id.includes("?")) {
+        throw new Error(
+          `DataCustomId.create takes a raw ID without fields: ${id}`
+        );
+      }
+    } else if (options.signing) {
+      const unsignedId = DataCustomId.removeSignature(id, options.signing);
+      if (typeof unsignedId === "undefined") {
+        throw new DataCustomIdSignatureError(
+          id.includes(signatureSeparator)
+            ? `DataCustomId has an invalid signature: ${id}`
+            : `DataCustomId is missing its signature: ${id}`
+        );
+      }
+      id = unsignedId;
+    }
+
+    if (options.strict) {
+      DataCustomId.checkStrict(id, options);
+    }
+
     if (id.includes("?")) {
+      this.parsed = true;
       this.rawId = id.slice(0, id.indexOf("?"));
-      this.fields = parse(id.slice(id.indexOf("?") + 1), {
-        // because we encode with commas to save space
-        comma: true,
-      }) as DataCustomIdFields;
+      this.fields = DataCustomId.decodeFields(
+        id.slice(id.indexOf("?") + 1),
+        options,
+        this.rawId
+      );
+      this.encryptionContext = DataCustomId.encryptionContext(
+        this.rawId,
+        this.fields
+      );
+
+      if (options.strict) {
+        DataCustomId.checkStrictFields(this.fields, id, options);
+      }
     } else {
       this.rawId = id;
     }
 
     this.pathParts = this.rawId.split("/");
 
-    return this;
-  }
+    if (typeof this.fields[expiryKey] === "string") {
+      const seconds = decodeBase62(this.fields[expiryKey] as string);
+      delete this.fields[expiryKey];
 
-  /**
-   * Adds a field to the custom ID.
-   *
-   * Keep names and values short to avoid hitting Discord's limit, which is not enforced
-   * until you call `toString()`.
-   *
-   * @param key The key (name) of the field.
-   * @param value Its value: a string, array of strings, or boolean.
-   */
-  public addField(
-    key: string,
-    value: EncodableDataCustomIdFieldValue
-  ): DataCustomId {
-    // @ts-ignore - qs will handle serialization of "incompatible" types
-    this.fields[key] = value;
+      // an unreadable expiry is an invalid date, which counts as expired
+      this.expiresAt = new Date(
+        typeof seconds === "undefined" ? NaN : Number(seconds) * 1000
+      );
+    }
 
-    return this;
-  }
+    if (typeof this.fields[discriminatorKey] === "string") {
+      const discriminator = decodeBase62(
+        this.fields[discriminatorKey] as string
+      );
+      delete this.fields[discriminatorKey];
 
-  /**
+      if (typeof discriminator !== "undefined") {
+        this.discriminator = Number(discriminator);
+      }
+    }
+
+    if (typeof this.fields[versionKey] === "string") {
+      this.version = Number(this.fields[versionKey]);
+      delete this.fields[versionKey];
+    }
+
+    if (typeof this.fields[ownerKey] === "string") {
+      this.owner = DataCustomId.decodeOwner(this.fields[ownerKey] as string);
+      delete this.fields[ownerKey];
+    }
+
+    if (typeof this.fields[nonceKey] === "string") {
+      this.nonce = this.fields[nonceKey] as string;
+      delete this.fields[nonceKey];
+    }
+
+    if (options.rejectExpired && this.isExpired()) {
+      throw new DataCustomIdExpiredError(
+        `DataCustomId has expired: ${this.rawId}`
+      );
+    }
+
+    if (options.clickedBy && !this.isOwnedBy(options.clickedBy)) {
+      throw new DataCustomIdOwnershipError(
+        `DataCustomId is owned by someone else: ${this.rawId}`
+      );
+    }
+
+    if (typeof this.fields[stateTokenKey] === "string") {
+      this.stateToken = this.fields[stateTokenKey] as string;
+      delete this.fields[stateTokenKey];
+
+      if (options.store) {
+        const state = options.store.get(this.stateToken);
+        if (isPromiseLike(state)) {
+          throw new DataCustomIdStoreError(
+            "DataCustomId's store is async, use DataCustomId.parseAsync() instead"
+          );
+        }
+        this.restoreState(state);
+      }
+    }
+
+    // like signing, raw IDs without fields are new custom IDs being built
+    if (options.migrations && this.parsed) {
+      this.migrate(options.migrations);
+    }
+
+    return this;
+  }
+
+  /**
+   * Creates a new custom ID to add fields to, without parsing it.
+   *
+   * With `signing`, the constructor only accepts custom IDs with a valid signature,
+   * so build new custom IDs with `create` instead.
+   *
+   * @param rawId The raw custom ID, without fields. Defaults to an empty string.
+   * @param options Options like `signing`, used by `toString()`. Defaults to `defaultOptions`.
+   * @throws {DataCustomIdParseError} if `strict` is set and the raw ID is malformed.
+   * @returns The new DataCustomId.
+   */
+  public static create(
+    rawId: string = "",
+    options: DataCustomIdOptions = defaultOptions
+  ): DataCustomId {
+    // a copy only this call can pass, and the same class, so subclasses are built their own way
+    const marked = { ...options };
+    buildOptions.add(marked);
+    return new this(rawId, marked);
+  }
+
+  /**
+   * Parses a custom ID like the constructor, but waits for async stores
+   * to restore fields that didn't fit in the custom ID.
+   *
+   * @param id The custom ID with or without fields appended.
+   * @param options Options like `store`. Defaults to `defaultOptions`.
+   * @throws {DataCustomIdParseError} if `strict` is set and the custom ID is malformed.
+   * @throws {DataCustomIdExpiredError} if `rejectExpired` is enabled and the custom ID has expired.
+   * @throws {DataCustomIdOwnershipError} if `clickedBy` is set and the custom ID is owned by someone else.
+   * @throws {DataCustomIdStoreError} if the custom ID's fields were stored, and can't be restored from `store`.
+   * @throws {DataCustomIdVersionError} if `migrations` are set and the custom ID's version can't be migrated.
+   * @returns The parsed DataCustomId.
+   */
+  public static async parseAsync(
+    id: string,
+    options: DataCustomIdOptions = defaultOptions
+  ): Promise<DataCustomId> {
+    // migrations need every field, so they run after the store
+    // the same class, so subclasses parse their own way
+    const customId = new this(id, {
+      ...options,
+      store: undefined,
+      migrations: undefined,
+    });
+    customId.options = options;
+
+    if (customId.stateToken && options.store) {
+      customId.restoreState(await options.store.get(customId.stateToken));
+    }
+
+    if (options.migrations && customId.parsed) {
+      customId.migrate(options.migrations);
+    }
+
+    return customId;
+  }
+
+  /**
+   * Parses a custom ID like the constructor, but returns why it couldn't be parsed instead of throwing.
+   * Use it with `strict` to tell malformed custom IDs apart.
+   *
+   * @param id The custom ID with or without fields appended.
+   * @param options Options like `strict`. Defaults to `defaultOptions`.
+   * @returns `{ ok: true, customId }`, or `{ ok: false, error }` with the error the constructor threw.
+   */
+  public static tryParse(
+    id: string,
+    options: DataCustomIdOptions = defaultOptions
+  ): DataCustomIdParseResult {
+    try {
+      return { ok: true, customId: new this(id, options) };
+    } catch (e) {
+      return { ok: false, error: e as Error };
+    }
+  }
+
+  /**
+   * Checks whether a custom ID has a valid signature.
+   *
+   * @param id The signed custom ID.
+   * @param signing The signing options (secrets) to check against.
+   * @returns `true` if the signature was made with one of the secrets.
+   */
+  public static verify(
+    id: string,
+    signing: DataCustomIdSigningOptions
+  ): boolean {
+    return typeof DataCustomId.removeSignature(id, signing) === "string";
+  }
+
+  /**
+   * Adds a field to the custom ID.
+   *
+   * Keep names and values short to avoid hitting Discord's limit, which is not enforced
+   * until you call `toString()`. The `aliases` option keeps long names readable in code.
+   *
+   * @param key The key (name) of the field.
+   * @param value Its value: a string, array of strings, or boolean.
+   */
+  public addField(key: string, value: EncodableDataCustomIdFieldValue): this {
+    // @ts-ignore - qs will handle serialization of "incompatible" types
+    this.fields[key] = value;
+
+    return this;
+  }
+
+  /**
    * Add multiple fields to the custom ID.
    * Overwrites existing fields with the same name.
    * @param fields Fields to add to the custom ID.
    * @returns The current instance for chaining.
    */
-  public addFields(fields: DataCustomIdFields): DataCustomId {
+  public addFields(fields: DataCustomIdFields): this {
     this.fields = {
       ...this.fields,
       ...fields,
@@ -155,12 +941,115 @@ export default class DataCustomId {
     return this;
   }
 
+  /**
+   * Adds a field that packs many booleans into one base-62 bitfield, so 12 toggles
+   * take 2 characters instead of 12 fields. Read it with `getFlagsField`.
+   *
+   * @param key The key (name) of the field.
+   * @param flags The booleans, by name. Missing names are `false`.
+   * @param names Every flag's name, in the order of their bits. Only add names at the end,
+   * or custom IDs that were already sent are read wrong.
+   * @throws {Error} if a flag isn't in `names`.
+   * @returns The current instance for chaining.
+   */
+  public addFlagsField<T extends string>(
+    key: string,
+    flags: { [name in T]?: boolean },
+    names: readonly T[]
+  ): this {
+    let bits = BigInt(0);
+    for (const name in flags) {
+      const index = names.indexOf(name);
+      if (index === -1) {
+        throw new Error(`${name} isn't one of the flags of ${key}`);
+      }
+      if (flags[name]) {
+        bits += BigInt(1) << BigInt(index);
+      }
+    }
+
+    this.fields[key] = encodeBase62(bits);
+    return this;
+  }
+
+  /**
+   * Adds a field that's one of a fixed set of choices, encoded as its position
+   * in one base-62 character (or more, for over 62 choices). Read it with `getEnumField`.
+   *
+   * @param key The key (name) of the field.
+   * @param value The choice.
+   * @param choices Every choice. Only add choices at the end,
+   * or custom IDs that were already sent are read wrong.
+   * @throws {Error} if the value isn't one of the choices.
+   * @returns The current instance for chaining.
+   */
+  public addEnumField<T extends string>(
+    key: string,
+    value: T,
+    choices: readonly T[]
+  ): this {
+    const index = choices.indexOf(value);
+    if (index === -1) {
+      throw new Error(`${value} isn't one of the choices of ${key}`);
+    }
+
+    this.fields[key] = encodeBase62(index);
+    return this;
+  }
+
+  /**
+   * Adds a date field, encoded in base 62 as whole seconds since the `epoch` option,
+   * so a date in 2024 takes 5 characters. Milliseconds are rounded down.
+   * Read it with `getDateField`.
+   *
+   * @param key The key (name) of the field.
+   * @param date The date, as a Date or in milliseconds.
+   * @throws {Error} if the date is invalid.
+   * @returns The current instance for chaining.
+   */
+  public addDateField(key: string, date: Date | number): this {
+    const ms = typeof date === "number" ? date : date.getTime();
+    if (!isFinite(ms)) {
+      throw new Error(`${key} isn't a valid date`);
+    }
+
+    this.fields[key] = encodeBase62(Math.floor((ms - this.epoch()) / 1000));
+    return this;
+  }
+
+  /**
+   * Adds a duration field, encoded in the largest unit it's a whole number of,
+   * like `7d`, `90m` or `1500` (milliseconds). Read it with `getDurationField`.
+   *
+   * @param key The key (name) of the field.
+   * @param ms The duration in milliseconds, which is rounded to a whole number.
+   * @throws {Error} if the duration isn't finite.
+   * @returns The current instance for chaining.
+   */
+  public addDurationField(key: string, ms: number): this {
+    if (!isFinite(ms)) {
+      throw new Error(`${key} isn't a valid duration`);
+    }
+
+    ms = Math.round(ms);
+    let encoded = String(ms);
+    for (const [unit, unitMs] of durationUnits) {
+      if (ms !== 0 && ms % unitMs === 0) {
+        encoded = `${ms / unitMs}${unit}`;
+        break;
+      }
+    }
+
+    this.fields[key] = encoded;
+    return this;
+  }
+
   /**
    * Removes a field from the custom ID.
    * @param key The key (name) of the field to remove.
    * @returns The current instance for chaining.
    */
-  public removeField(key: string): DataCustomId {
+  public removeField(key: string): this {
     delete this.fields[key];
     return this;
   }
@@ -173,7 +1062,7 @@ export default class DataCustomId {
    * @param other DataCustomId instance to copy fields from.
    * @returns The current instance for chaining.
    */
-  public copyFieldsFrom(other: DataCustomId): DataCustomId {
+  public copyFieldsFrom(other: DataCustomId): this {
     this.fields = {
       ...this.fields,
       ...other.fields,
@@ -182,6 +1071,207 @@ export default class DataCustomId {
     return this;
   }
 
+  /**
+   * Copies the custom ID, optionally with a different raw ID.
+   * The copy has the same options, fields and expiry, and changing one doesn't change the other.
+   *
+   * @param rawId The copy's raw ID, which must not have `?` characters. Defaults to this custom ID's.
+   * @returns The new DataCustomId.
+   */
+  public clone(rawId: string = this.rawId): DataCustomId {
+    // the same class, so copies of subclasses keep their encoding
+    const customId = (this.constructor as typeof DataCustomId).create(
+      rawId,
+      this.options
+    );
+
+    for (const key in this.fields) {
+      const value = this.fields[key];
+      customId.fields[key] = Array.isArray(value)
+        ? ((value as unknown[]).slice() as string[])
+        : value;
+    }
+
+    if (this.expiresAt) {
+      customId.expiresAt = new Date(this.expiresAt.getTime());
+    }
+    customId.discriminator = this.discriminator;
+    customId.owner = this.owner && { ...this.owner };
+    customId.nonce = this.nonce;
+    customId.stateToken = this.stateToken;
+    customId.version = this.version;
+
+    return customId;
+  }
+
+  /**
+   * Makes the custom ID expire some time from now.
+   *
+   * The expiry is encoded in seconds, so it's rounded up to the next second.
+   * @param ms How long, in milliseconds, until the custom ID expires.
+   * @returns The current instance for chaining.
+   */
+  public setExpiresIn(ms: number): this {
+    return this.setExpiresAt(this.now() + ms);
+  }
+
+  /**
+   * Makes the custom ID expire at a given time.
+   *
+   * The expiry is encoded in seconds, so it's rounded up to the next second.
+   * @param date When the custom ID expires, as a Date or in milliseconds.
+   * @returns The current instance for chaining.
+   */
+  public setExpiresAt(date: Date | number): this {
+    this.expiresAt = new Date(
+      Math.ceil(new Date(date).getTime() / 1000) * 1000
+    );
+    return this;
+  }
+
+  /**
+   * Checks whether the custom ID has expired, using the `clock` option.
+   * @returns `true` if the custom ID has an expiry which has passed or can't be read.
+   */
+  public isExpired(): boolean {
+    return (
+      typeof this.expiresAt !== "undefined" &&
+      !(this.now() < this.expiresAt.getTime())
+    );
+  }
+
+  /**
+   * Binds the custom ID to who may use it, like the user who ran the command.
+   * The owner is encoded as `$o`, with each ID in base 62.
+   *
+   * @param owner The ID of the user who may use the custom ID, or a user, role and guild.
+   * @throws {Error} if no ID is set, or an ID isn't a snowflake.
+   * @returns The current instance for chaining.
+   */
+  public setOwner(owner: string | DataCustomIdOwner): this {
+    const ids: DataCustomIdOwner =
+      typeof owner === "string" ? { userId: owner } : owner;
+    const newOwner: DataCustomIdOwner = {};
+
+    for (const key of ownerIdKeys) {
+      const id = ids[key];
+      if (typeof id === "undefined") {
+        continue;
+      }
+      if (!/^\d+$/.test(id)) {
+        throw new Error(`DataCustomId owner IDs must be snowflakes: ${id}`);
+      }
+      newOwner[key] = id;
+    }
+
+    if (!Object.keys(newOwner).length) {
+      throw new Error("DataCustomId owners need a user, role or guild ID");
+    }
+
+    this.owner = newOwner;
+    return this;
+  }
+
+  /**
+   * Checks whether a user may use the custom ID: they're its owner's user or have its role,
+   * in its guild if it has one.
+   *
+   * @param user The user's ID, or the user with their roles and guild, like the user who clicked the button.
+   * @returns `true` if the custom ID has no owner or is owned by the user, and `false` if its owner can't be read.
+   */
+  public isOwnedBy(user: string | DataCustomIdUser): boolean {
+    if (!this.owner) {
+      return true;
+    }
+
+    const { userId, roleId, guildId } = this.owner;
+    const clicker: DataCustomIdUser =
+      typeof user === "string" ? { userId: user } : user;
+
+    // unreadable owners are read as {}, which owns nothing
+    if (!userId && !roleId && !guildId) {
+      return false;
+    }
+    if (guildId && clicker.guildId !== guildId) {
+      return false;
+    }
+
+    return (
+      (!userId && !roleId) ||
+      (!!userId && clicker.userId === userId) ||
+      (!!roleId && !!clicker.roleIds && clicker.roleIds.indexOf(roleId) !== -1)
+    );
+  }
+
+  /**
+   * Makes the custom ID single-use, by giving it a random nonce, encoded as `$n`.
+   * When it comes back, call `consume` to reject it if it was already used.
+   *
+   * Copies made with `clone` keep the nonce, so using one of them uses them all.
+   * Call `setSingleUse` on a copy to give it its own nonce.
+   *
+   * @returns The current instance for chaining.
+   */
+  public setSingleUse(): this {
+    this.nonce = randomBytes(6).toString("base64url");
+    return this;
+  }
+
+  /**
+   * Uses a single-use custom ID, so it can't be used again, like when its button is double-clicked
+   * or replayed. Custom IDs without a nonce can be used any number of times, so they're accepted.
+   *
+   * Unsigned nonces can be removed, see `DataCustomIdOptions.signing`.
+   *
+   * @param store The store that remembers used nonces. Defaults to `defaultNonceStore`, an in-memory store.
+   * @throws {DataCustomIdConsumedError} if the custom ID was already used.
+   * @throws {DataCustomIdStoreError} if the store is async.
+   * @returns The current instance for chaining.
+   */
+  public consume(store: DataCustomIdNonceStore = defaultNonceStore): this {
+    if (typeof this.nonce === "undefined") {
+      return this;
+    }
+
+    const consumed = store.consume(this.nonce);
+    if (isPromiseLike(consumed)) {
+      throw new DataCustomIdStoreError(
+        "DataCustomId's nonce store is async, use consumeAsync() instead"
+      );
+    }
+    return this.checkConsumed(consumed);
+  }
+
+  /**
+   * Uses a single-use custom ID like `consume()`, but waits for async stores.
+   *
+   * @param store The store that remembers used nonces. Defaults to `defaultNonceStore`, an in-memory store.
+   * @throws {DataCustomIdConsumedError} if the custom ID was already used.
+   * @returns The current instance.
+   */
+  public async consumeAsync(
+    store: DataCustomIdNonceStore = defaultNonceStore
+  ): Promise<this> {
+    if (typeof this.nonce === "undefined") {
+      return this;
+    }
+
+    return this.checkConsumed(await store.consume(this.nonce));
+  }
+
+  /**
+   * @throws {DataCustomIdConsumedError} if the nonce store says the custom ID was already used.
+   * @private
+   */
+  private checkConsumed(consumed: boolean): this {
+    if (!consumed) {
+      throw new DataCustomIdConsumedError(
+        `DataCustomId was already used: ${this.rawId}`
+      );
+    }
+    return this;
+  }
+
   /**
    * Returns all the Custom ID's fields.
    */
@@ -220,6 +1310,7 @@ export default class DataCustomId {
    * Returns the value of a field, coalesced to a number or float.
    *
    * Floats can only have base 10.
+   * Use base `62` for integers encoded with `compactIntegers`.
    *
    * @param key The key (name) of the field.
    * @param float Whether the number should be parsed with `parseFloat()`. Doesn't support bases. Default false.
@@ -228,7 +1319,7 @@ export default class DataCustomId {
    */
   public getNumericField(key: string, float = false, base = 10): number {
     return typeof this.fields[key] === "string"
-      ? (float ? parseFloat : parseInt)(this.fields[key] as string, base)
+      ? DataCustomId.parseNumber(this.fields[key] as string, float, base)
       // @ts-ignore - possible to have a number if someone added it and queried it without serialization
       : typeof this.fields[key] === "number" ? this.fields[key] as number : NaN;
   }
@@ -248,7 +1339,42 @@ export default class DataCustomId {
       return [];
     }
 
-    return this.getStringArrayField(key).map((x) => parseInt(x, 10));
+    return this.getStringArrayField(key).map((x) =>
+      // values may not be strings if they were added without serialization or typed
+      typeof x === "number"
+        ? x
+        : DataCustomId.parseNumber(String(x), float, base)
+    );
+  }
+
+  /**
+   * Returns the value of a field, coalesced to a bigint.
+   * Useful for Discord snowflakes, which are too big to be stored as numbers.
+   *
+   * @param key The key (name) of the field.
+   * @param base The base the snowflake was encoded in: `62` with `compactIntegers`, or `10` without. Default 10.
+   * @returns A bigint, or `0n` if the field doesn't exist or isn't an integer.
+   */
+  public getSnowflakeField(key: string, base: 10 | 62 = 10): bigint {
+    return DataCustomId.parseSnowflake(this.fields[key], base);
+  }
+
+  /**
+   * Returns the value of a field, coalesced to a bigint array.
+   * Values that aren't integers will be in the return value as `0n`.
+   *
+   * @param key The key (name) of the field.
+   * @param base The base the snowflakes were encoded in: `62` with `compactIntegers`, or `10` without. Default 10.
+   * @returns A bigint array, or an empty array if the field does not exist.
+   */
+  public getSnowflakeArrayField(key: string, base: 10 | 62 = 10): bigint[] {
+    if (typeof this.fields[key] === "undefined") {
+      return [];
+    }
+
+    return this.getStringArrayField(key).map((x) =>
+      DataCustomId.parseSnowflake(x, base)
+    );
   }
 
   /**
@@ -269,31 +1395,120 @@ export default class DataCustomId {
   }
 
   /**
-   * Compresses fields based on the passed-in compression options.
-   * @param fields The fields to compress.
-   * @param options Compression options.
-   * @returns A new object with compressed fields.
-   * @private
+   * Returns the value of a field added with `addFlagsField`, as booleans by name.
+   *
+   * @param key The key (name) of the field.
+   * @param names Every flag's name, in the same order as when the field was added.
+   * @returns The booleans, which are all `false` if the field does not exist or isn't a bitfield.
    */
-  private static compressFields(
-    fields: DataCustomIdFields,
-    options: DataCustomIdEncodeOptions
-  ): DataCustomIdFields {
-    // if every compression option is disabled, we can just return the fields
-    if (Object.values(options).every((v) => v === false)) {
-      return fields;
+  public getFlagsField<T extends string>(
+    key: string,
+    names: readonly T[]
+  ): { [name in T]: boolean } {
+    let bits = decodeBase62(this.getStringField(key)) || BigInt(0);
+    if (bits < BigInt(0)) {
+      bits = BigInt(0);
     }
 
-    const compressedFields: DataCustomIdFields = {};
+    const flags = {} as { [name in T]: boolean };
+    for (const name of names) {
+      flags[name] = bits % BigInt(2) === BigInt(1);
+      bits /= BigInt(2);
+    }
+    return flags;
+  }
 
-    for (const key in fields) {
-      const value = fields[key];
+  /**
+   * Returns the value of a field added with `addDateField`.
+   *
+   * @param key The key (name) of the field.
+   * @returns The date, or an invalid date (whose `getTime()` is `NaN`) if the field does not exist or isn't a date.
+   */
+  public getDateField(key: string): Date {
+    const seconds = decodeBase62(this.getStringField(key));
+    return new Date(
+      typeof seconds === "undefined"
+        ? NaN
+        : this.epoch() + Number(seconds) * 1000
+    );
+  }
 
-      if (options.skipFalsyValues) {
-        if (!value) {
-          continue;
-        }
-      }
+  /**
+   * Returns the value of a field added with `addDurationField`, in milliseconds.
+   *
+   * @param key The key (name) of the field.
+   * @returns The duration, or `NaN` if the field does not exist or isn't a duration.
+   */
+  public getDurationField(key: string): number {
+    const match = /^(-?\d+)([dhms]?)$/.exec(this.getStringField(key));
+    if (!match) {
+      return NaN;
+    }
+
+    for (const [unit, unitMs] of durationUnits) {
+      if (match[2] === unit) {
+        return Number(match[1]) * unitMs;
+      }
+    }
+    return Number(match[1]);
+  }
+
+  /**
+   * Returns the value of a field added with `addEnumField`.
+   *
+   * @param key The key (name) of the field.
+   * @param choices Every choice, in the same order as when the field was added.
+   * @returns The choice, or `undefined` if the field does not exist or isn't one of the choices.
+   */
+  public getEnumField<T extends string>(
+    key: string,
+    choices: readonly T[]
+  ): T | undefined {
+    const index = decodeBase62(this.getStringField(key));
+    return typeof index === "undefined" ? undefined : choices[Number(index)];
+  }
+
+  /**
+   * Compresses fields based on the passed-in compression options.
+   * @param fields The fields to compress.
+   * @param options Compression options.
+   * @returns A new object with compressed fields.
+   * @private
+   */
+  private static compressFields(
+    fields: DataCustomIdFields,
+    options: DataCustomIdEncodeOptions,
+    typed?: boolean
+  ): DataCustomIdFields {
+    // if every compression option is disabled, we can just return the fields
+    if (Object.values(options).every((v) => v === false)) {
+      return fields;
+    }
+
+    const compressedFields: DataCustomIdFields = {};
+
+    for (const key in fields) {
+      const value = fields[key];
+
+      if (typed) {
+        // typed values are encoded with their type, so only skip values
+        // getters read the same when they're missing (0 would become NaN)
+        const skippable =
+          value === false ||
+          value === "" ||
+          value === null ||
+          Number.isNaN(value);
+        if (!options.skipFalsyValues || !skippable) {
+          compressedFields[key] = value;
+        }
+        continue;
+      }
+
+      if (options.skipFalsyValues) {
+        if (!value) {
+          continue;
+        }
+      }
 
       if (options.convertTrueToOne) {
         if (value === true || value === "true") {
@@ -302,51 +1517,1200 @@ export default class DataCustomId {
         }
       }
 
+      if (options.compactIntegers) {
+        compressedFields[key] = Array.isArray(value)
+          ? ((value as unknown[]).map((v) =>
+              DataCustomId.compactInteger(v)
+            ) as string[])
+          : (DataCustomId.compactInteger(value) as string);
+        continue;
+      }
+
       compressedFields[key] = value;
     }
 
     return compressedFields;
   }
 
+  /**
+   * Encodes an integer in base 62 for `compactIntegers`.
+   * Other values, including strings of digits that other fields are stored as, are returned as they are.
+   * @private
+   */
+  private static compactInteger(value: unknown): unknown {
+    return DataCustomId.isInteger(value) ? encodeBase62(value) : value;
+  }
+
+  /**
+   * Whether a value is a bigint or a safe integer number.
+   * @private
+   */
+  private static isInteger(value: unknown): value is bigint | number {
+    return typeof value === "bigint" || Number.isSafeInteger(value);
+  }
+
+  /**
+   * Parses a number from a string, supporting base 62 for `compactIntegers`.
+   * @private
+   */
+  private static parseNumber(
+    value: string,
+    float: boolean,
+    base: number
+  ): number {
+    if (float) {
+      return parseFloat(value);
+    }
+
+    if (base === 62) {
+      const decoded = decodeBase62(value);
+      return typeof decoded === "undefined" ? NaN : Number(decoded);
+    }
+
+    return parseInt(value, base);
+  }
+
+  /**
+   * Parses a bigint from a field value.
+   * @private
+   */
+  private static parseSnowflake(value: unknown, base: 10 | 62): bigint {
+    if (typeof value === "bigint") {
+      return value;
+    }
+
+    if (Number.isSafeInteger(value)) {
+      return BigInt(value as number);
+    }
+
+    if (typeof value === "string") {
+      if (base === 62) {
+        return decodeBase62(value) || BigInt(0);
+      }
+
+      if (/^-?\d+$/.test(value)) {
+        return BigInt(value);
+      }
+    }
+
+    return BigInt(0);
+  }
+
+  /**
+   * Escapes reserved characters in a string. See `DataCustomIdOptions.escape`.
+   * @private
+   */
+  private static escapeString(value: string): string {
+    let escaped = "";
+    for (let i = 0; i < value.length; i++) {
+      escaped += escapeCodes[value[i]]
+        ? `${escapeCharacter}${escapeCodes[value[i]]}`
+        : value[i];
+    }
+    return escaped;
+  }
+
+  /**
+   * Reverses `escapeString`. Unknown escapes are kept as-is.
+   * @private
+   */
+  private static unescapeString(value: string): string {
+    let unescaped = "";
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === escapeCharacter && unescapeCodes[value[i + 1]]) {
+        unescaped += unescapeCodes[value[i + 1]];
+        i++;
+      } else {
+        unescaped += value[i];
+      }
+    }
+    return unescaped;
+  }
+
+  /**
+   * Applies a function to a value, or every string in an array.
+   * @private
+   */
+  private static mapStrings<T>(value: T, fn: (value: string) => string): T {
+    if (typeof value === "string") {
+      return fn(value) as unknown as T;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((v) =>
+        typeof v === "string" ? fn(v) : v
+      ) as unknown as T;
+    }
+
+    return value;
+  }
+
+  /**
+   * Encodes a value with a type marker. See `DataCustomIdOptions.typed`.
+   *
+   * Markers are `!` followed by a character that isn't an escape code:
+   * `!T`, `!F` and `!_` for `true`, `false` and `null`, `!` and the number (like `!-1.5`),
+   * `!` and the bigint followed by `n`, `!i`/`!b`/`!d` and base 62 for compact integers/bigints/digit strings,
+   * and `!` followed by `,` and each element for arrays (so `[]` is `!`).
+   * Strings are escaped, so they never look like markers.
+   * @private
+   */
+  private static encodeTypedValue(
+    value: unknown,
+    compactIntegers?: boolean
+  ): string {
+    if (typeof value === "string") {
+      // digit strings are only marked if that's shorter
+      if (compactIntegers && compactDigits.test(value)) {
+        const encoded = `${escapeCharacter}d${encodeBase62(BigInt(value))}`;
+        if (encoded.length < value.length) {
+          return encoded;
+        }
+      }
+      return DataCustomId.escapeString(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.reduce<string>(
+        (encoded, v) =>
+          `${encoded},${DataCustomId.encodeTypedValue(v, compactIntegers)}`,
+        escapeCharacter
+      );
+    }
+
+    if (typeof value === "boolean") {
+      return `${escapeCharacter}${value ? "T" : "F"}`;
+    }
+
+    if (typeof value === "bigint") {
+      return compactIntegers
+        ? `${escapeCharacter}b${encodeBase62(value)}`
+        : `${escapeCharacter}${value}n`;
+    }
+
+    if (typeof value === "number") {
+      if (Object.is(value, -0)) {
+        return `${escapeCharacter}-0`;
+      }
+
+      return compactIntegers && Number.isSafeInteger(value)
+        ? `${escapeCharacter}i${encodeBase62(value)}`
+        : `${escapeCharacter}${value}`;
+    }
+
+    if (value === null) {
+      return `${escapeCharacter}_`;
+    }
+
+    return DataCustomId.escapeString(String(value));
+  }
+
+  /**
+   * Reverses `encodeTypedValue`. Unknown markers are read as strings.
+   * @private
+   */
+  private static decodeTypedValue(
+    value: string
+  ): EncodableDataCustomIdFieldValue {
+    if (value[0] !== escapeCharacter || unescapeCodes[value[1]]) {
+      return DataCustomId.unescapeString(value);
+    }
+
+    const marker = value.slice(1);
+    if (marker === "" || marker[0] === ",") {
+      // the first element is the empty string before the first comma
+      return marker
+        .split(",")
+        .slice(1)
+        .map((v) => DataCustomId.decodeTypedValue(v)) as string[];
+    }
+
+    if (marker === "T" || marker === "F") {
+      return marker === "T";
+    }
+
+    if (marker === "_") {
+      return null;
+    }
+
+    if (marker[0] === "i" || marker[0] === "b") {
+      const decoded = decodeBase62(marker.slice(1));
+      if (typeof decoded !== "undefined") {
+        return marker[0] === "i" ? Number(decoded) : decoded;
+      }
+    }
+
+    if (marker[0] === "d") {
+      const decoded = decodeBase62(marker.slice(1));
+      if (typeof decoded !== "undefined") {
+        return String(decoded);
+      }
+    }
+
+    if (/^-?\d+n$/.test(marker)) {
+      return BigInt(marker.slice(0, -1));
+    }
+
+    const number = Number(marker);
+    if (marker !== "" && (!isNaN(number) || marker === "NaN")) {
+      return number;
+    }
+
+    return DataCustomId.unescapeString(value);
+  }
+
+  /**
+   * Returns a copy of fields with their keys renamed.
+   * @private
+   */
+  private static renameKeys(
+    fields: DataCustomIdFields,
+    rename: (key: string) => string
+  ): DataCustomIdFields {
+    const renamedFields: DataCustomIdFields = {};
+    for (const key in fields) {
+      renamedFields[rename(key)] = fields[key];
+    }
+    return renamedFields;
+  }
+
+  /**
+   * Serializes prepared fields with the current codec, after its marker.
+   * @private
+   */
+  private static stringifyFields(
+    fields: DataCustomIdFields,
+    options: DataCustomIdOptions
+  ): string {
+    const codec = DataCustomId.codec(options);
+    const encodedFields = codec.stringify(fields, options);
+    return encodedFields && `${codec.marker}${encodedFields}`;
+  }
+
+  /**
+   * Encrypts, renames, escapes and types fields, as codecs expect them.
+   * Encrypted fields are bound to `context`, from `encryptionContext`.
+   * @throws {DataCustomIdAliasError} if a field's name is another field's alias.
+   * @private
+   */
+  private static prepareFields(
+    fields: DataCustomIdFields,
+    options: DataCustomIdOptions,
+    context: string,
+    compactIntegers?: boolean
+  ): DataCustomIdFields {
+    if (options.encryption) {
+      const encryption = options.encryption;
+      const plainFields: DataCustomIdFields = {};
+      const secretFields: DataCustomIdFields = {};
+      for (const key in fields) {
+        if (DataCustomId.isEncrypted(key, encryption)) {
+          secretFields[key] = fields[key];
+        } else {
+          plainFields[key] = fields[key];
+        }
+      }
+
+      const unencryptedOptions = { ...options, encryption: undefined };
+      const secret = DataCustomId.stringifyFields(
+        DataCustomId.prepareFields(
+          secretFields,
+          unencryptedOptions,
+          context,
+          compactIntegers
+        ),
+        unencryptedOptions
+      );
+      const preparedFields = DataCustomId.prepareFields(
+        plainFields,
+        unencryptedOptions,
+        context,
+        compactIntegers
+      );
+      if (secret) {
+        preparedFields[encryptedKey] = DataCustomId.encrypt(
+          secret,
+          encryption,
+          context
+        );
+      }
+      return preparedFields;
+    }
+
+    if (options.aliases) {
+      const aliases = options.aliases;
+      fields = DataCustomId.renameKeys(fields, (key) => aliases.alias(key));
+    }
+
+    if (options.typed) {
+      const typedFields: DataCustomIdFields = {};
+      for (const key in fields) {
+        if (typeof fields[key] !== "undefined") {
+          typedFields[DataCustomId.escapeString(key)] =
+            DataCustomId.encodeTypedValue(fields[key], compactIntegers);
+        }
+      }
+      return typedFields;
+    } else if (options.escape) {
+      const escapedFields: DataCustomIdFields = {};
+      for (const key in fields) {
+        escapedFields[DataCustomId.escapeString(key)] = DataCustomId.mapStrings(
+          fields[key],
+          DataCustomId.escapeString
+        );
+      }
+      return escapedFields;
+    }
+
+    // copied, since encrypted fields are added to it
+    return { ...fields };
+  }
+
+  /**
+   * The codec new custom IDs are encoded with.
+   * @private
+   */
+  private static codec(options: DataCustomIdOptions): DataCustomIdCodec {
+    return options.codecs ? options.codecs.current : defaultCodec;
+  }
+
+  /**
+   * Parses fields with the codec that encoded them, decrypting encrypted fields and renaming aliased fields.
+   * Encrypted fields are bound to the raw ID and the meta fields parsed with them,
+   * or to `context` for fields restored from the store.
+   * @throws {DataCustomIdDecryptionError} if encrypted fields can't be decrypted.
+   * @private
+   */
+  private static decodeFields(
+    encodedFields: string,
+    options: DataCustomIdOptions,
+    rawId: string,
+    context?: string
+  ): DataCustomIdFields {
+    let fields = DataCustomId.parseFields(encodedFields, options);
+
+    if (typeof fields[encryptedKey] !== "undefined") {
+      if (!options.encryption) {
+        throw new DataCustomIdDecryptionError(
+          "DataCustomId has encrypted fields, but encryption isn't set"
+        );
+      }
+
+      const secret = DataCustomId.decrypt(
+        String(fields[encryptedKey]),
+        options.encryption,
+        typeof context === "string"
+          ? context
+          : DataCustomId.encryptionContext(rawId, fields)
+      );
+      delete fields[encryptedKey];
+      fields = { ...fields, ...DataCustomId.parseFields(secret, options) };
+    }
+
+    if (!options.aliases) {
+      return fields;
+    }
+
+    const aliases = options.aliases;
+    return DataCustomId.renameKeys(fields, (key) => aliases.name(key));
+  }
+
+  /**
+   * Parses fields with the codec that encoded them, unescaping them or decoding their types.
+   * @private
+   */
+  private static parseFields(
+    encodedFields: string,
+    options: DataCustomIdOptions
+  ): DataCustomIdFields {
+    const { codec, encoded } = options.codecs
+      ? options.codecs.detect(encodedFields)
+      : { codec: defaultCodec, encoded: encodedFields };
+    const parsedFields = codec.parse(encoded, options);
+
+    if (options.typed) {
+      const fields: DataCustomIdFields = {};
+      for (const key in parsedFields) {
+        const value = parsedFields[key];
+        // repeated keys are parsed as arrays of typed values
+        fields[DataCustomId.unescapeString(key)] = Array.isArray(value)
+          ? (value.map((v) =>
+              DataCustomId.decodeTypedValue(String(v))
+            ) as string[])
+          : DataCustomId.decodeTypedValue(String(value));
+      }
+      return fields;
+    }
+
+    if (!options.escape) {
+      return parsedFields;
+    }
+
+    const fields: DataCustomIdFields = {};
+    for (const key in parsedFields) {
+      fields[DataCustomId.unescapeString(key)] = DataCustomId.mapStrings(
+        parsedFields[key],
+        DataCustomId.unescapeString
+      );
+    }
+    return fields;
+  }
+
+  /**
+   * Adds fields restored from the store, keeping fields already on the custom ID.
+   * @throws {DataCustomIdStoreError} if nothing was stored under the token.
+   * @private
+   */
+  private restoreState(state: string | undefined): void {
+    if (typeof state === "undefined") {
+      throw new DataCustomIdStoreError(
+        `DataCustomId's fields weren't found in the store, they may have expired: ${this.stateToken}`
+      );
+    }
+
+    this.fields = {
+      ...DataCustomId.decodeFields(
+        state,
+        this.options,
+        this.rawId,
+        this.encryptionContext
+      ),
+      ...this.fields,
+    };
+  }
+
+  /**
+   * Migrates fields from the custom ID's version to the current version.
+   * @throws {DataCustomIdVersionError} if the version can't be migrated.
+   * @private
+   */
+  private migrate(migrations: DataCustomIdMigrations): void {
+    // custom IDs from before versioning are version 1
+    const version = typeof this.version === "undefined" ? 1 : this.version;
+    if (!migrations.accepts(version)) {
+      throw new DataCustomIdVersionError(
+        `DataCustomId's version ${version} isn't accepted, accepted versions are ${migrations
+          .acceptedVersions()
+          .join(", ")}`
+      );
+    }
+
+    this.fields = migrations.migrate(this.fields, version);
+    this.version = migrations.currentVersion;
+  }
+
+  /**
+   * Whether a field is encrypted: every field is, unless only some are listed.
+   * @private
+   */
+  private static isEncrypted(
+    key: string,
+    encryption: DataCustomIdEncryptionOptions
+  ): boolean {
+    return !encryption.fields || encryption.fields.indexOf(key) !== -1;
+  }
+
+  /**
+   * Hashes an encryption key into an AES-256 key.
+   * @private
+   */
+  private static encryptionKey(key: string): Buffer {
+    return createHash("sha256").update(key).digest();
+  }
+
+  /**
+   * The raw ID and encoded meta fields, which encrypted fields are bound to
+   * as additional authenticated data, so they can't be moved to another custom ID.
+   * @private
+   */
+  private static encryptionContext(
+    rawId: string,
+    metaFields: DataCustomIdFields
+  ): string {
+    // JSON, so values can't be moved between the raw ID and meta fields
+    return JSON.stringify([
+      rawId,
+      ...encryptionContextKeys.map((key) =>
+        typeof metaFields[key] === "string" ? metaFields[key] : null
+      ),
+    ]);
+  }
+
+  /**
+   * Encrypts encoded fields with the first key, as base64url of the IV, ciphertext and tag.
+   * @private
+   */
+  private static encrypt(
+    plaintext: string,
+    encryption: DataCustomIdEncryptionOptions,
+    context: string
+  ): string {
+    const key = Array.isArray(encryption.key)
+      ? encryption.key[0]
+      : encryption.key;
+    const iv = randomBytes(ivLength);
+    const cipher = createCipheriv(
+      "aes-256-gcm",
+      DataCustomId.encryptionKey(key),
+      iv
+    );
+    cipher.setAAD(Buffer.from(context, "utf8"));
+
+    return Buffer.concat([
+      iv,
+      cipher.update(plaintext, "utf8"),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]).toString("base64url");
+  }
+
+  /**
+   * Decrypts encoded fields with whichever key encrypted them.
+   * @throws {DataCustomIdDecryptionError} if no key can decrypt them.
+   * @private
+   */
+  private static decrypt(
+    encrypted: string,
+    encryption: DataCustomIdEncryptionOptions,
+    context: string
+  ): string {
+    const data = Buffer.from(encrypted, "base64url");
+    const keys = Array.isArray(encryption.key)
+      ? encryption.key
+      : [encryption.key];
+
+    if (data.length >= ivLength + authTagLength) {
+      const iv = data.subarray(0, ivLength);
+      const ciphertext = data.subarray(ivLength, data.length - authTagLength);
+      const authTag = data.subarray(data.length - authTagLength);
+
+      for (const key of keys) {
+        const decipher = createDecipheriv(
+          "aes-256-gcm",
+          DataCustomId.encryptionKey(key),
+          iv
+        );
+        decipher.setAuthTag(authTag);
+        decipher.setAAD(Buffer.from(context, "utf8"));
+        try {
+          return Buffer.concat([
+            decipher.update(ciphertext),
+            decipher.final(),
+          ]).toString("utf8");
+        } catch (e) {
+          // the authentication tag doesn't match, so try the next key
+        }
+      }
+    }
+
+    throw new DataCustomIdDecryptionError(
+      `DataCustomId's encrypted fields can't be decrypted: ${encrypted}`
+    );
+  }
+
+  /**
+   * Computes the truncated, base64url-encoded HMAC of a custom ID.
+   * @private
+   */
+  private static sign(
+    payload: string,
+    secret: string,
+    signing: DataCustomIdSigningOptions
+  ): string {
+    return createHmac("sha256", secret)
+      .update(payload)
+      .digest("base64url")
+      .slice(0, signing.signatureLength || 8);
+  }
+
+  /**
+   * Verifies and removes the signature from a signed custom ID.
+   * @returns The custom ID without its signature, or `undefined` if the signature is missing or wrong.
+   * @private
+   */
+  private static removeSignature(
+    id: string,
+    signing: DataCustomIdSigningOptions
+  ): string | undefined {
+    // signatures never contain the separator, so the last one is ours
+    const separatorIndex = id.lastIndexOf(signatureSeparator);
+    if (separatorIndex === -1) {
+      return undefined;
+    }
+
+    const payload = id.slice(0, separatorIndex);
+    const signature = Buffer.from(id.slice(separatorIndex + 1));
+    const secrets = Array.isArray(signing.secret)
+      ? signing.secret
+      : [signing.secret];
+
+    for (const secret of secrets) {
+      const expected = Buffer.from(DataCustomId.sign(payload, secret, signing));
+      if (
+        expected.length === signature.length &&
+        timingSafeEqual(expected, signature)
+      ) {
+        return payload;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Appends a signature to a custom ID if signing is enabled.
+   * @private
+   */
+  private withSignature(id: string): string {
+    if (!this.options.signing) {
+      return id;
+    }
+
+    const { secret } = this.options.signing;
+    return `${id}${signatureSeparator}${DataCustomId.sign(
+      id,
+      Array.isArray(secret) ? secret[0] : secret,
+      this.options.signing
+    )}`;
+  }
+
+  /**
+   * Returns the time dates are encoded relative to, from the `epoch` option.
+   * @private
+   */
+  private epoch(): number {
+    return typeof this.options.epoch === "number"
+      ? this.options.epoch
+      : discordEpoch;
+  }
+
+  /**
+   * Returns the current time from the `clock` option.
+   * @private
+   */
+  private now(): number {
+    return (this.options.clock || Date.now)();
+  }
+
+  /**
+   * Encodes fields DataCustomId uses itself, which are never stored.
+   * @private
+   */
+  private encodeMetaFields(): DataCustomIdFields {
+    const metaFields: DataCustomIdFields = {};
+
+    if (this.options.migrations) {
+      metaFields[versionKey] = String(this.options.migrations.currentVersion);
+    }
+
+    if (typeof this.expiresAt !== "undefined") {
+      // invalid dates count as expired, so they're encoded as the earliest time
+      const seconds = Math.ceil(this.expiresAt.getTime() / 1000);
+      metaFields[expiryKey] = encodeBase62(isNaN(seconds) ? 0 : seconds);
+    }
+
+    if (typeof this.discriminator !== "undefined") {
+      metaFields[discriminatorKey] = encodeBase62(this.discriminator);
+    }
+
+    if (this.owner) {
+      const owner = this.owner;
+      metaFields[ownerKey] = ownerIdKeys
+        .map((key) => {
+          const id = owner[key];
+          return typeof id === "string" ? encodeBase62(BigInt(id)) : "";
+        })
+        .join(ownerSeparator)
+        // missing IDs at the end don't need separators
+        .replace(/\.+$/, "");
+    }
+
+    if (typeof this.nonce !== "undefined") {
+      metaFields[nonceKey] = this.nonce;
+    }
+
+    return metaFields;
+  }
+
+  /**
+   * Decodes the owner's base 62 IDs. Owners with unreadable IDs are read as `{}`.
+   * @private
+   */
+  private static decodeOwner(encodedOwner: string): DataCustomIdOwner {
+    const owner: DataCustomIdOwner = {};
+    const parts = encodedOwner.split(ownerSeparator);
+
+    for (let i = 0; i < parts.length && i < ownerIdKeys.length; i++) {
+      if (!parts[i]) {
+        continue;
+      }
+      const id = decodeBase62(parts[i]);
+      if (typeof id === "undefined") {
+        return {};
+      }
+      owner[ownerIdKeys[i]] = id.toString();
+    }
+
+    return owner;
+  }
+
+  /**
+   * Returns the `strict` option's limits, with defaults for those not set.
+   * @private
+   */
+  private static strictOptions(
+    options: DataCustomIdOptions
+  ): Required<DataCustomIdStrictOptions> {
+    return typeof options.strict === "object"
+      ? { ...defaultStrictOptions, ...options.strict }
+      : defaultStrictOptions;
+  }
+
+  /**
+   * Checks the raw ID and each query string field of an unsigned custom ID, before it's parsed,
+   * since query strings parse malformed fields (and drop fields over their limits) without throwing.
+   * Fields encoded by other codecs are checked after they're parsed.
+   * @throws {DataCustomIdParseError} if the custom ID is malformed.
+   * @private
+   */
+  private static checkStrict(id: string, options: DataCustomIdOptions): void {
+    const { maxFields, maxArrayLength, maxDepth } =
+      DataCustomId.strictOptions(options);
+    const fieldsIndex = id.indexOf("?");
+    const rawId = fieldsIndex === -1 ? id : id.slice(0, fieldsIndex);
+
+    if (rawId.includes("&")) {
+      throw new DataCustomIdParseError(
+        `DataCustomId's raw ID has an & at ${rawId.indexOf("&")}: ${rawId}`,
+        "&",
+        rawId.indexOf("&")
+      );
+    }
+    if (fieldsIndex === -1) {
+      return;
+    }
+
+    // find where the query string fields start, after the codec's marker and its own fields
+    const encodedFields = id.slice(fieldsIndex + 1);
+    const { codec, encoded } = options.codecs
+      ? options.codecs.detect(encodedFields)
+      : { codec: defaultCodec, encoded: encodedFields };
+    let position = id.length - encoded.length;
+    let queryString = encoded;
+    if (codec instanceof PositionalCodec) {
+      if (!encoded.includes("&")) {
+        return;
+      }
+      position += encoded.indexOf("&") + 1;
+      queryString = encoded.slice(encoded.indexOf("&") + 1);
+    } else if (!(codec instanceof QueryStringCodec)) {
+      return;
+    }
+
+    const keys: string[] = [];
+    const segments = queryString.split("&");
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const separatorIndex = segment.indexOf("=");
+      const key =
+        separatorIndex === -1 ? segment : segment.slice(0, separatorIndex);
+      const value =
+        separatorIndex === -1 ? "" : segment.slice(separatorIndex + 1);
+      const fail = (problem: string) => {
+        throw new DataCustomIdParseError(
+          `DataCustomId ${problem} at ${position}: ${segment}`,
+          segment,
+          position
+        );
+      };
+
+      if (i >= maxFields) {
+        fail(`has over ${maxFields} fields`);
+      }
+      if (!key) {
+        fail("has a field without a key");
+      }
+      if ((key.match(/\[/g) || []).length > maxDepth) {
+        fail(`has a field nested over ${maxDepth} levels deep`);
+      }
+      if (keys.indexOf(key) !== -1) {
+        fail("has a repeated key");
+      }
+      // typed arrays start with !, so it isn't a value
+      const values = options.typed
+        ? value.indexOf(`${escapeCharacter},`) === 0
+          ? value.split(",").length - 1
+          : 1
+        : value.split(",").length;
+      if (values > maxArrayLength) {
+        fail(`has an array with over ${maxArrayLength} values`);
+      }
+      keys.push(key);
+      position += segment.length + 1;
+    }
+  }
+
+  /**
+   * Checks parsed fields against the `strict` limits, which also covers fields encoded by other codecs than query strings.
+   * @throws {DataCustomIdParseError} if the fields are over a limit.
+   * @private
+   */
+  private static checkStrictFields(
+    fields: DataCustomIdFields,
+    id: string,
+    options: DataCustomIdOptions
+  ): void {
+    const { maxFields, maxArrayLength, maxDepth } =
+      DataCustomId.strictOptions(options);
+    const position = id.indexOf("?") + 1;
+    const fail = (problem: string) => {
+      throw new DataCustomIdParseError(
+        `DataCustomId ${problem}: ${id.slice(position)}`,
+        id.slice(position),
+        position
+      );
+    };
+    const depth = (value: unknown): number =>
+      typeof value === "object" && value !== null && !Array.isArray(value)
+        ? 1 +
+          Math.max(
+            0,
+            ...Object.keys(value).map((key) =>
+              depth((value as { [key: string]: unknown })[key])
+            )
+          )
+        : 0;
+
+    const keys = Object.keys(fields);
+    if (keys.length > maxFields) {
+      fail(`has over ${maxFields} fields`);
+    }
+    for (const key of keys) {
+      const value = fields[key];
+      if (Array.isArray(value) && value.length > maxArrayLength) {
+        fail(`has an array with over ${maxArrayLength} values`);
+      }
+      if (depth(value) > maxDepth) {
+        fail(`has a field nested over ${maxDepth} levels deep`);
+      }
+    }
+  }
+
+  /**
+   * Formats the encoded and signed custom ID, before its length is checked.
+   * Subclasses override it to write IDs differently, like without the raw ID.
+   * @protected
+   */
+  protected formatId(id: string): string {
+    return id;
+  }
+
+  /**
+   * Encodes fields (not necessarily this custom ID's) with the raw ID, meta fields and signature.
+   * @private
+   */
+  private encodeWithFields(
+    fields: DataCustomIdFields,
+    compressionOptions: DataCustomIdEncodeOptions
+  ): { id: string; encodedFields: string } {
+    const compressedFields = DataCustomId.compressFields(
+      fields,
+      compressionOptions,
+      this.options.typed
+    );
+
+    // prepared once, since encrypting twice would encrypt differently
+    const metaFields = this.encodeMetaFields();
+    const preparedFields = DataCustomId.prepareFields(
+      compressedFields,
+      this.options,
+      DataCustomId.encryptionContext(this.rawId, metaFields),
+      compressionOptions.compactIntegers
+    );
+    const encodedFields = DataCustomId.stringifyFields(
+      preparedFields,
+      this.options
+    );
+    const allFields = DataCustomId.stringifyFields(
+      { ...preparedFields, ...metaFields },
+      this.options
+    );
+
+    return {
+      id: this.formatId(
+        this.withSignature(
+          allFields ? `${this.rawId}?${allFields}` : this.rawId
+        )
+      ),
+      encodedFields,
+    };
+  }
+
+  /**
+   * Encodes the custom ID, dropping, truncating or storing fields if they don't fit.
+   * @private
+   */
+  private encode(
+    compressionOptions: DataCustomIdEncodeOptions
+  ): EncodedDataCustomId {
+    const limit = compressionOptions.maxLength || 100;
+    let fields = this.fields;
+    let { id: finalId, encodedFields } = this.encodeWithFields(
+      fields,
+      compressionOptions
+    );
+
+    const droppableFields = compressionOptions.droppableFields || [];
+    for (let i = 0; i < droppableFields.length && finalId.length > limit; i++) {
+      if (droppableFields[i] in fields) {
+        fields = { ...fields };
+        delete fields[droppableFields[i]];
+        ({ id: finalId, encodedFields } = this.encodeWithFields(
+          fields,
+          compressionOptions
+        ));
+      }
+    }
+
+    const truncatableFields = compressionOptions.truncatableFields || [];
+    for (
+      let i = 0;
+      i < truncatableFields.length && finalId.length > limit;
+      i++
+    ) {
+      const key = truncatableFields[i];
+      const value = fields[key];
+      if (typeof value !== "string") {
+        continue;
+      }
+
+      // find the most characters to keep that fit, since escapes make lengths uneven
+      let low = 0;
+      let high = value.length - 1;
+      let keep = 0;
+      while (low <= high) {
+        const middle = Math.floor((low + high) / 2);
+        const { id } = this.encodeWithFields(
+          { ...fields, [key]: `${value.slice(0, middle)}…` },
+          compressionOptions
+        );
+        if (id.length <= limit) {
+          keep = middle;
+          low = middle + 1;
+        } else {
+          high = middle - 1;
+        }
+      }
+
+      fields = { ...fields, [key]: `${value.slice(0, keep)}…` };
+      ({ id: finalId, encodedFields } = this.encodeWithFields(
+        fields,
+        compressionOptions
+      ));
+    }
+
+    let state: EncodedDataCustomId["state"];
+
+    if (finalId.length > limit && this.options.store && encodedFields) {
+      state = {
+        token: randomBytes(6).toString("base64url"),
+        value: encodedFields,
+      };
+      const allFields = DataCustomId.stringifyFields(
+        { [stateTokenKey]: state.token, ...this.encodeMetaFields() },
+        this.options
+      );
+      finalId = this.formatId(this.withSignature(`${this.rawId}?${allFields}`));
+    }
+
+    if (finalId.length > limit) {
+      throw new DataCustomIdLengthError(
+        `DataCustomId is over the limit of ${limit} characters, use explain() to see why: ${finalId}`
+      );
+    }
+
+    return { id: finalId, state };
+  }
+
+  /**
+   * Measures how long the encoded custom ID is, and how much each part contributes, without throwing.
+   *
+   * Fields aren't dropped, truncated or stored, so this measures the custom ID as if none of them were.
+   *
+   * @param compressionOptions The options to encode with, like for `toString()`.
+   * @returns The length of the raw ID, each field, meta fields, separators and signature.
+   */
+  public measure(
+    compressionOptions = defaultEncodeOptions
+  ): DataCustomIdMeasurement {
+    const compressedFields = DataCustomId.compressFields(
+      this.fields,
+      compressionOptions,
+      this.options.typed
+    );
+
+    // encrypted fields are encrypted together, so they're measured together as $x
+    const { encryption } = this.options;
+    const measuredFields: { [key: string]: DataCustomIdFields } = {};
+    const secretFields: DataCustomIdFields = {};
+    for (const key in compressedFields) {
+      if (encryption && DataCustomId.isEncrypted(key, encryption)) {
+        secretFields[key] = compressedFields[key];
+      } else {
+        measuredFields[key] = { [key]: compressedFields[key] };
+      }
+    }
+    if (Object.keys(secretFields).length) {
+      measuredFields[encryptedKey] = secretFields;
+    }
+
+    const codec = DataCustomId.codec(this.options);
+    const measureFields = (preparedFields: DataCustomIdFields) =>
+      codec.measure
+        ? codec.measure(preparedFields, this.options)
+        : codec.stringify(preparedFields, this.options).length;
+
+    const fields: DataCustomIdMeasurement["fields"] = {};
+    let fieldsLength = 0;
+    for (const key in measuredFields) {
+      // encrypted fields are as long with any context
+      const fieldLength = measureFields(
+        DataCustomId.prepareFields(
+          measuredFields[key],
+          this.options,
+          "",
+          compressionOptions.compactIntegers
+        )
+      );
+      if (fieldLength) {
+        fields[key] = fieldLength;
+        fieldsLength += fieldLength;
+      }
+    }
+
+    const metaFields = measureFields(this.encodeMetaFields());
+    const signature = this.options.signing
+      ? signatureSeparator.length + (this.options.signing.signatureLength || 8)
+      : 0;
+
+    // everything else, like the ? and & between fields, is a separator
+    const { id } = this.encodeWithFields(this.fields, compressionOptions);
+    const length = id.length;
+    const limit = compressionOptions.maxLength || 100;
+
+    return {
+      length,
+      limit,
+      remaining: limit - length,
+      rawId: this.rawId.length,
+      fields,
+      metaFields,
+      separators:
+        length - this.rawId.length - fieldsLength - metaFields - signature,
+      signature,
+    };
+  }
+
+  /**
+   * Describes how long the encoded custom ID is, and how much each part contributes, without throwing.
+   * Useful for finding which fields make a custom ID too long.
+   *
+   * @param compressionOptions The options to encode with, like for `toString()`.
+   * @returns A line for each part, with fields from longest to shortest.
+   */
+  public explain(compressionOptions = defaultEncodeOptions): string {
+    const measurement = this.measure(compressionOptions);
+    const fields = Object.keys(measurement.fields).sort(
+      (a, b) => measurement.fields[b] - measurement.fields[a]
+    );
+
+    return [
+      `raw ID: ${measurement.rawId}`,
+      ...fields.map((key) => `field ${key}: ${measurement.fields[key]}`),
+      `meta fields: ${measurement.metaFields}`,
+      `separators: ${measurement.separators}`,
+      `signature: ${measurement.signature}`,
+      `total: ${measurement.length} of ${measurement.limit} (${measurement.remaining} remaining)`,
+    ].join("\n");
+  }
+
   /**
    * Returns the raw ID string with all fields encoded.
    *
    * A Custom ID `/ban` with fields `{ "reason": "spam"}` should return `/ban?reason=spam`.
    * `true` and falsy values may or may not be encoded depending on selected options.
    *
-   * @throws {DataCustomIdLengthError} if the serialized string is over Discord's 100-character limit.
+   * If `signing` is enabled, a signature is appended, like `/ban?reason=spam~AbCd1234`.
+   * The signature counts towards the 100-character limit.
+   *
+   * If the custom ID would be too long, `droppableFields` are dropped and `truncatableFields`
+   * are truncated. Then, if a `store` is set, its fields are stored, and a token is encoded instead.
+   *
+   * @throws {DataCustomIdLengthError} if the serialized string is over Discord's 100-character limit (or `maxLength`).
+   * @throws {DataCustomIdStoreError} if fields need to be stored, but the store is async.
+   * @throws {DataCustomIdAliasError} if `aliases` are set and a field's name is another field's alias.
    * @returns The Custom ID value with all fields encoded. Use this as the value for the Custom ID field in a Discord API request.
    */
   public toString(compressionOptions = defaultEncodeOptions): string {
-    const compressedFields = DataCustomId.compressFields(
-      this.fields,
-      compressionOptions
-    );
+    const { id, state } = this.encode(compressionOptions);
 
-    const encodedFields = stringify(compressedFields, {
-      // add ?
-      addQueryPrefix: true,
-      // rather than ?key[]=value&key[]=value2
-      arrayFormat: "comma",
-      // save space
-      skipNulls: true,
-      // not necessary to URL encode
-      encode: false,
-    });
+    if (state) {
+      const result = (this.options.store as DataCustomIdStateStore).set(
+        state.token,
+        state.value
+      );
+      if (isPromiseLike(result)) {
+        throw new DataCustomIdStoreError(
+          "DataCustomId's store is async, use toStringAsync() instead"
+        );
+      }
+    }
 
-    const finalId =
-      encodedFields.length > 1 ? `${this.rawId}${encodedFields}` : this.rawId;
+    return id;
+  }
 
-    if (finalId.length > 100) {
-      throw new DataCustomIdLengthError(
-        `DataCustomId is over Discord's limit of 100 characters: ${finalId}`
+  /**
+   * Returns the raw ID string with all fields encoded, like `toString()`,
+   * but waits for async stores to store fields that don't fit in the custom ID.
+   *
+   * @throws {DataCustomIdLengthError} if the serialized string is over Discord's 100-character limit (or `maxLength`).
+   * @returns The Custom ID value with all fields encoded.
+   */
+  public async toStringAsync(
+    compressionOptions = defaultEncodeOptions
+  ): Promise<string> {
+    const { id, state } = this.encode(compressionOptions);
+
+    if (state) {
+      await (this.options.store as DataCustomIdStateStore).set(
+        state.token,
+        state.value
       );
     }
 
-    return finalId;
+    return id;
   }
 }
 
 module.exports = DataCustomId;
 module.exports.DataCustomIdLengthError = DataCustomIdLengthError;
 module.exports.defaultEncodeOptions = defaultEncodeOptions;
+module.exports.DataCustomIdSignatureError = DataCustomIdSignatureError;
+module.exports.defaultOptions = defaultOptions;
+module.exports.DataCustomIdStoreError = DataCustomIdStoreError;
+module.exports.DataCustomIdExpiredError = DataCustomIdExpiredError;
+module.exports.DataCustomIdVersionError = DataCustomIdVersionError;
+module.exports.DataCustomIdOwnershipError = DataCustomIdOwnershipError;
+module.exports.DataCustomIdConsumedError = DataCustomIdConsumedError;
+module.exports.DataCustomIdParseError = DataCustomIdParseError;
+module.exports.DataCustomIdDecryptionError = DataCustomIdDecryptionError;
+module.exports.DataCustomIdMigrations = DataCustomIdMigrations;
+module.exports.DataCustomIdAliasError = DataCustomIdAliasError;
+module.exports.DataCustomIdAliases = DataCustomIdAliases;
+module.exports.DataCustomIdCodecs = DataCustomIdCodecs;
+module.exports.PositionalCodec = PositionalCodec;
+module.exports.QueryStringCodec = QueryStringCodec;
+module.exports.MemoryStateStore = MemoryStateStore;
+module.exports.JsonFileStateStore = JsonFileStateStore;
+module.exports.MemoryNonceStore = MemoryNonceStore;
+module.exports.defaultNonceStore = defaultNonceStore;
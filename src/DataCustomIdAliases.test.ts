@@ -0,0 +1,55 @@
+import {
+  DataCustomIdAliasError,
+  DataCustomIdAliases,
+} from "./DataCustomIdAliases";
+
+describe("DataCustomIdAliases", () => {
+  const aliases = new DataCustomIdAliases({ userId: "u", reason: "r" });
+
+  test("aliases names", () => {
+    expect(aliases.alias("userId")).toBe("u");
+    expect(aliases.alias("other")).toBe("other");
+  });
+
+  test("names aliases", () => {
+    expect(aliases.name("u")).toBe("userId");
+    expect(aliases.name("other")).toBe("other");
+  });
+
+  test("ignores Object.prototype properties", () => {
+    expect(aliases.alias("toString")).toBe("toString");
+    expect(aliases.name("constructor")).toBe("constructor");
+  });
+
+  test("rejects duplicate aliases", () => {
+    expect(() => new DataCustomIdAliases({ userId: "u", user: "u" })).toThrow(
+      DataCustomIdAliasError
+    );
+  });
+
+  test("rejects aliases that are field names", () => {
+    expect(() => new DataCustomIdAliases({ userId: "u", u: "x" })).toThrow(
+      DataCustomIdAliasError
+    );
+    expect(() => new DataCustomIdAliases({ u: "x", userId: "u" })).toThrow(
+      DataCustomIdAliasError
+    );
+  });
+
+  test("allows a field to be its own alias", () => {
+    expect(new DataCustomIdAliases({ u: "u" }).alias("u")).toBe("u");
+  });
+
+  test("rejects reserved names and aliases", () => {
+    expect(() => new DataCustomIdAliases({ $t: "t" })).toThrow(
+      DataCustomIdAliasError
+    );
+    expect(() => new DataCustomIdAliases({ token: "$t" })).toThrow(
+      DataCustomIdAliasError
+    );
+  });
+
+  test("rejects field names that are other fields' aliases", () => {
+    expect(() => aliases.alias("u")).toThrow(DataCustomIdAliasError);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * DataCustomIdAliasError is thrown when aliases collide, either when they're registered,
+ * or when a custom ID has a field whose name is another field's alias.
+ */
+export class DataCustomIdAliasError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdAliasError";
+  }
+}
+
+function has(object: { [key: string]: string }, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * A dictionary of short aliases for field names, so your code can use readable names
+ * while custom IDs stay short.
+ *
+ * Pass it as the `aliases` option: `toString()` encodes fields under their aliases,
+ * and the constructor decodes them back to their names. Fields without an alias are
+ * encoded under their name.
+ *
+ * ```ts
+ * const aliases = new DataCustomIdAliases({ userId: "u", reason: "r" });
+ *
+ * new DataCustomId("ban/confirm", { aliases })
+ *   .addFields({ userId: "42390489028347289", reason: "spam" })
+ *   .toString();
+ * // -> ban/confirm?u=42390489028347289&r=spam
+ * ```
+ */
+export class DataCustomIdAliases {
+  private readonly aliases: { [name: string]: string } = {};
+  private readonly names: { [alias: string]: string } = {};
+
+  /**
+   * @param aliases Aliases by field name, like `{ userId: "u" }`.
+   * @throws {DataCustomIdAliasError} if two fields have the same alias, an alias is another field's name,
+   * or a name or alias starts with `$`, which is reserved.
+   */
+  constructor(aliases: { [name: string]: string }) {
+    for (const name in aliases) {
+      const alias = aliases[name];
+
+      if (name.startsWith("$") || alias.startsWith("$")) {
+        throw new DataCustomIdAliasError(
+          `Field names and aliases starting with $ are reserved: ${name} -> ${alias}`
+        );
+      }
+
+      if (has(this.names, alias)) {
+        throw new DataCustomIdAliasError(
+          `${name} and ${this.names[alias]} have the same alias: ${alias}`
+        );
+      }
+
+      this.aliases[name] = alias;
+      this.names[alias] = name;
+    }
+
+    for (const alias in this.names) {
+      if (has(this.aliases, alias) && this.names[alias] !== alias) {
+        throw new DataCustomIdAliasError(
+          `${this.names[alias]}'s alias is also a field name: ${alias}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Returns the alias for a field name, or the name itself if it has no alias.
+   *
+   * @throws {DataCustomIdAliasError} if the name is another field's alias,
+   * so it would be decoded as that field.
+   */
+  public alias(name: string): string {
+    if (has(this.aliases, name)) {
+      return this.aliases[name];
+    }
+
+    if (has(this.names, name)) {
+      throw new DataCustomIdAliasError(
+        `${name} is ${this.names[name]}'s alias, so it can't be a field name`
+      );
+    }
+
+    return name;
+  }
+
+  /**
+   * Returns the field name for an alias, or the alias itself if it isn't one.
+   */
+  public name(alias: string): string {
+    return has(this.names, alias) ? this.names[alias] : alias;
+  }
+}
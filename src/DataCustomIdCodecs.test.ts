@@ -0,0 +1,112 @@
+import {
+  DataCustomIdCodec,
+  DataCustomIdCodecs,
+  PositionalCodec,
+  QueryStringCodec,
+} from "./DataCustomIdCodecs";
+
+describe("QueryStringCodec", () => {
+  const codec = new QueryStringCodec();
+
+  test("encodes fields like a query string", () => {
+    expect(codec.stringify({ user: "1", roles: ["a", "b"] })).toBe(
+      "user=1&roles=a,b"
+    );
+    expect(codec.parse("user=1&roles=a,b", {})).toStrictEqual({
+      user: "1",
+      roles: ["a", "b"],
+    });
+  });
+
+  test("keeps % in escaped values", () => {
+    expect(codec.parse("a=100%25", {})).toStrictEqual({ a: "100%" });
+    expect(codec.parse("a=100%25", { escape: true })).toStrictEqual({
+      a: "100%25",
+    });
+  });
+});
+
+describe("PositionalCodec", () => {
+  const codec = new PositionalCodec(["user", "reason", "roles"]);
+
+  test("encodes values in order, without keys", () => {
+    expect(
+      codec.stringify({ reason: "spam", user: "1", roles: ["a", "b"] }, {})
+    ).toBe("1.spam.a,b");
+    expect(codec.parse("1.spam.a,b", {})).toStrictEqual({
+      user: "1",
+      reason: "spam",
+      roles: ["a", "b"],
+    });
+  });
+
+  test("leaves out missing values", () => {
+    expect(codec.stringify({ reason: "spam" }, {})).toBe(".spam");
+    expect(codec.stringify({ user: "1" }, {})).toBe("1");
+    expect(codec.parse(".spam", {})).toStrictEqual({ reason: "spam" });
+  });
+
+  test("encodes other fields after &", () => {
+    expect(codec.stringify({ user: "1", $e: "abc", extra: "x" }, {})).toBe(
+      "1&$e=abc&extra=x"
+    );
+    expect(codec.stringify({ $e: "abc" }, {})).toBe("&$e=abc");
+    expect(codec.parse("1&$e=abc&extra=x", {})).toStrictEqual({
+      $e: "abc",
+      extra: "x",
+      user: "1",
+    });
+    expect(codec.parse("&$e=abc", {})).toStrictEqual({ $e: "abc" });
+  });
+
+  test("escapes separators in values", () => {
+    const fields = { user: "1.5", reason: "a, b & c!" };
+    const encoded = codec.stringify(fields, {});
+
+    expect(encoded).toBe("1!p5.a!c b !a c!!");
+    expect(codec.parse(encoded, {})).toStrictEqual(fields);
+  });
+
+  test("measures values without their keys", () => {
+    expect(codec.measure({ reason: "spam", $e: "abc" }, {})).toBe(10);
+  });
+});
+
+describe("DataCustomIdCodecs", () => {
+  const positional = new PositionalCodec(["user"]);
+
+  test("detects codecs by their marker", () => {
+    const codecs = new DataCustomIdCodecs(positional);
+
+    expect(codecs.current).toBe(positional);
+    expect(codecs.detect(".1")).toStrictEqual({
+      codec: positional,
+      encoded: "1",
+    });
+    expect(codecs.detect("user=1").codec).toBeInstanceOf(QueryStringCodec);
+    expect(codecs.detect("user=1").encoded).toBe("user=1");
+  });
+
+  test("defaults to query strings", () => {
+    const codecs = new DataCustomIdCodecs().add(positional);
+
+    expect(codecs.current).toBeInstanceOf(QueryStringCodec);
+    expect(codecs.detect(".1").codec).toBe(positional);
+  });
+
+  test("rejects invalid and duplicate markers", () => {
+    const codec = (marker: string): DataCustomIdCodec => ({
+      marker,
+      stringify: () => "",
+      parse: () => ({}),
+    });
+    const codecs = new DataCustomIdCodecs(positional);
+
+    for (const marker of ["", "a", "1", "$", "!", "&", "~", "?", "**"]) {
+      expect(() => codecs.add(codec(marker))).toThrow();
+    }
+    expect(() => codecs.add(codec("."))).toThrow();
+    expect(() => codecs.add(positional)).not.toThrow();
+    expect(() => codecs.add(codec("*"))).not.toThrow();
+  });
+});
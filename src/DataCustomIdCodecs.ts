@@ -0,0 +1,278 @@
+import { parse, stringify } from "qs";
+import type { DataCustomIdFields, DataCustomIdOptions } from "./DataCustomId";
+
+/**
+ * Serializes fields into the part of a custom ID after the `?`, and back.
+ *
+ * Fields are already prepared when a codec sees them: renamed by `aliases`, escaped or
+ * typed by `escape` and `typed`, and encrypted by `encryption`. Meta fields (keys starting with `$`,
+ * like `$e` for the expiry) are included, and must be parsed back like any other field.
+ * Values are strings or string arrays, or, without `escape` and `typed`, numbers, bigints and booleans.
+ */
+export interface DataCustomIdCodec {
+  /**
+   * The character written right after the `?`, so the parser knows which codec encoded a custom ID.
+   * It's empty for `QueryStringCodec`, which custom IDs without a marker use.
+   */
+  readonly marker: string;
+  /**
+   * Serializes fields. Missing (`undefined` or `null`) values must be left out.
+   */
+  stringify(fields: DataCustomIdFields, options: DataCustomIdOptions): string;
+  /**
+   * Parses fields serialized by `stringify`, without the marker.
+   */
+  parse(encoded: string, options: DataCustomIdOptions): DataCustomIdFields;
+  /**
+   * Measures how many characters fields take up, without separators between them, for `measure()`.
+   * Defaults to the length of the fields stringified on their own.
+   */
+  measure?(fields: DataCustomIdFields, options: DataCustomIdOptions): number;
+}
+
+/**
+ * The default codec, which encodes fields like a URL query string: `key=value&key2=a,b`.
+ * Custom IDs encoded with it have no marker.
+ */
+export class QueryStringCodec implements DataCustomIdCodec {
+  public readonly marker = "";
+
+  public stringify(fields: DataCustomIdFields): string {
+    return stringify(fields, {
+      // rather than ?key[]=value&key[]=value2
+      arrayFormat: "comma",
+      // save space
+      skipNulls: true,
+      // not necessary to URL encode
+      encode: false,
+    });
+  }
+
+  public parse(
+    encoded: string,
+    options: DataCustomIdOptions
+  ): DataCustomIdFields {
+    if (options.typed) {
+      return parse(encoded, {
+        // arrays are part of typed values, so commas are kept
+        comma: false,
+        decoder: (value) => value,
+      }) as DataCustomIdFields;
+    }
+
+    return parse(encoded, {
+      // because we encode with commas to save space
+      comma: true,
+      // escaped strings aren't URL encoded, so % and + are kept as-is
+      decoder: options.escape ? (value) => value : undefined,
+    }) as DataCustomIdFields;
+  }
+}
+
+const positionalEscapes: { [character: string]: string } = {
+  "!": "!",
+  ".": "p",
+  ",": "c",
+  "&": "a",
+};
+const positionalUnescapes: { [code: string]: string } = {};
+for (const character in positionalEscapes) {
+  positionalUnescapes[positionalEscapes[character]] = character;
+}
+
+/**
+ * A denser codec for a fixed list of fields: values are written in the order of `keys`,
+ * separated by `.`, without their keys. `ban?user=1&reason=spam` becomes `ban?.1.spam`.
+ *
+ * Fields that aren't in `keys`, like meta fields, follow after a `&`, encoded like `QueryStringCodec`.
+ * Empty strings and empty arrays are left out, and single-element arrays are read back as strings.
+ *
+ * Only add keys at the end, or custom IDs that were already sent are read wrong.
+ */
+export class PositionalCodec implements DataCustomIdCodec {
+  public readonly marker: string;
+  private readonly keys: readonly string[];
+  private readonly rest = new QueryStringCodec();
+
+  /**
+   * @param keys The keys of the fields, in order, as they're encoded (after `aliases`).
+   * @param marker The codec's marker. Defaults to `.`.
+   */
+  constructor(keys: readonly string[], marker = ".") {
+    this.keys = keys;
+    this.marker = marker;
+  }
+
+  public stringify(
+    fields: DataCustomIdFields,
+    options: DataCustomIdOptions
+  ): string {
+    const values: string[] = [];
+    const rest: DataCustomIdFields = {};
+    for (const key in fields) {
+      if (this.keys.indexOf(key) === -1) {
+        rest[key] = fields[key];
+      }
+    }
+
+    for (const key of this.keys) {
+      const value = fields[key];
+      values.push(
+        Array.isArray(value)
+          ? (value as unknown[])
+              .map((v) => PositionalCodec.escape(String(v)))
+              .join(",")
+          : value === null || typeof value === "undefined"
+          ? ""
+          : PositionalCodec.escape(String(value))
+      );
+    }
+    // trailing empty values can be left out
+    while (values.length && !values[values.length - 1]) {
+      values.pop();
+    }
+
+    const encodedRest = this.rest.stringify(rest);
+    return encodedRest
+      ? `${values.join(".")}&${encodedRest}`
+      : values.join(".");
+  }
+
+  public parse(
+    encoded: string,
+    options: DataCustomIdOptions
+  ): DataCustomIdFields {
+    // & is always escaped in values, so the first one starts the other fields
+    const restIndex = encoded.indexOf("&");
+    const positional = restIndex === -1 ? encoded : encoded.slice(0, restIndex);
+    const fields =
+      restIndex === -1
+        ? {}
+        : this.rest.parse(encoded.slice(restIndex + 1), options);
+
+    const values = positional.split(".");
+    for (let i = 0; i < values.length && i < this.keys.length; i++) {
+      if (values[i]) {
+        const parts = values[i].split(",").map(PositionalCodec.unescape);
+        fields[this.keys[i]] = parts.length === 1 ? parts[0] : parts;
+      }
+    }
+
+    return fields;
+  }
+
+  public measure(
+    fields: DataCustomIdFields,
+    options: DataCustomIdOptions
+  ): number {
+    let length = 0;
+    for (const key in fields) {
+      // positional fields are only their values, since their keys aren't encoded
+      length +=
+        this.keys.indexOf(key) === -1
+          ? this.rest.stringify({ [key]: fields[key] }).length
+          : this.stringify({ [this.keys[0]]: fields[key] }, options).length;
+    }
+    return length;
+  }
+
+  private static escape(value: string): string {
+    return value.replace(
+      /[!.,&]/g,
+      (character) => `!${positionalEscapes[character]}`
+    );
+  }
+
+  private static unescape(value: string): string {
+    return value.replace(/!(.)/g, (escape, code: string) =>
+      typeof positionalUnescapes[code] === "string"
+        ? positionalUnescapes[code]
+        : escape
+    );
+  }
+}
+
+// characters that can't be markers, since they start fields or have other meanings in custom IDs
+const reservedMarkers = /^[0-9A-Za-z$!&=?~,/[\]%]$/;
+
+/**
+ * The codecs custom IDs can be encoded with: one encodes new custom IDs, and the rest
+ * are still parsed, recognized by their marker. Custom IDs without a marker are parsed
+ * with `QueryStringCodec`, so buttons sent before you used codecs keep working.
+ *
+ * Pass it as the `codecs` option:
+ *
+ * ```ts
+ * const codecs = new DataCustomIdCodecs(new PositionalCodec(["user", "reason"]));
+ *
+ * new DataCustomId("ban", { codecs }).addFields({ user: "1", reason: "spam" }).toString();
+ * // -> ban?.1.spam
+ * ```
+ *
+ * Field names that start with a marker can't be told apart from the marker, so
+ * pick markers your field names don't start with.
+ */
+export class DataCustomIdCodecs {
+  /**
+   * The codec new custom IDs are encoded with.
+   */
+  public readonly current: DataCustomIdCodec;
+  private readonly codecs: { [marker: string]: DataCustomIdCodec } = {};
+
+  /**
+   * @param current The codec new custom IDs are encoded with. Defaults to `QueryStringCodec`.
+   * @throws {Error} if its marker is invalid.
+   */
+  constructor(current: DataCustomIdCodec = new QueryStringCodec()) {
+    this.current = current;
+    this.add(current);
+  }
+
+  /**
+   * Registers a codec, so custom IDs encoded with it are parsed.
+   *
+   * @param codec The codec.
+   * @throws {Error} if its marker is a letter, a digit, a character custom IDs already use
+   * (`$ ! & = ? ~ , / [ ] %`), longer than one character, or already registered.
+   * @returns The current instance for chaining.
+   */
+  public add(codec: DataCustomIdCodec): DataCustomIdCodecs {
+    // custom IDs without a marker always use QueryStringCodec
+    if (codec instanceof QueryStringCodec) {
+      return this;
+    }
+
+    if (codec.marker.length !== 1 || reservedMarkers.test(codec.marker)) {
+      throw new Error(
+        `Codec markers must be one special character, like "." or "*": ${codec.marker}`
+      );
+    }
+    if (this.codecs[codec.marker] && this.codecs[codec.marker] !== codec) {
+      throw new Error(`Another codec already uses the marker ${codec.marker}`);
+    }
+
+    this.codecs[codec.marker] = codec;
+    return this;
+  }
+
+  /**
+   * Finds the codec that encoded fields, by their marker.
+   *
+   * @param encoded The part of a custom ID after the `?`.
+   * @returns The codec, and the encoded fields without the marker.
+   */
+  public detect(encoded: string): {
+    codec: DataCustomIdCodec;
+    encoded: string;
+  } {
+    const codec = encoded && this.codecs[encoded[0]];
+    return codec
+      ? { codec, encoded: encoded.slice(1) }
+      : { codec: defaultCodec, encoded };
+  }
+}
+
+/**
+ * The codec used without the `codecs` option.
+ */
+export const defaultCodec: DataCustomIdCodec = new QueryStringCodec();
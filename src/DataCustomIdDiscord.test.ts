@@ -0,0 +1,465 @@
+import DataCustomId, {
+  DataCustomIdLengthError,
+  defaultOptions,
+  DataCustomIdOwnershipError,
+  MemoryNonceStore,
+} from "./DataCustomId";
+import {
+  actionRow,
+  button,
+  carryOverModal,
+  DataCustomIdButtonStyle,
+  DataCustomIdDuplicateError,
+  fromInteraction,
+  interactionUser,
+  messageComponents,
+  modal,
+  modalSubmission,
+  selectedValues,
+  selectMenu,
+  selectMenuOption,
+  textInput,
+} from "./DataCustomIdDiscord";
+import DataCustomIdOptionValue from "./DataCustomIdOptionValue";
+import DataCustomIdSchema from "./DataCustomIdSchema";
+import ImmutableDataCustomId from "./ImmutableDataCustomId";
+
+describe("components", () => {
+  const customId = new DataCustomId("ban/confirm").addField("user", "1");
+
+  test("button", () => {
+    expect(button(customId, { label: "Ban" })).toStrictEqual({
+      type: 2,
+      style: DataCustomIdButtonStyle.Primary,
+      label: "Ban",
+      custom_id: "ban/confirm?user=1",
+    });
+    expect(
+      button(customId, { label: "Ban", style: DataCustomIdButtonStyle.Danger })
+        .style
+    ).toBe(4);
+  });
+
+  test("select menu", () => {
+    expect(
+      selectMenu(customId, { options: [{ label: "A", value: "a" }] })
+    ).toStrictEqual({
+      type: 3,
+      options: [{ label: "A", value: "a" }],
+      custom_id: "ban/confirm?user=1",
+    });
+  });
+
+  test("text input", () => {
+    expect(textInput(customId, { label: "Reason" })).toStrictEqual({
+      type: 4,
+      style: 1,
+      label: "Reason",
+      custom_id: "ban/confirm?user=1",
+    });
+  });
+
+  test("encodes with compression options", () => {
+    const id = new DataCustomId("rawId").addField("page", 0);
+
+    expect(button(id, {}, { skipFalsyValues: false }).custom_id).toBe(
+      "rawId?page=0"
+    );
+  });
+
+  test("accepts immutable custom IDs", () => {
+    expect(
+      button(new ImmutableDataCustomId("ban/confirm?user=1"), {}).custom_id
+    ).toBe("ban/confirm?user=1");
+  });
+
+  test("throws if the custom ID is too long", () => {
+    const id = new DataCustomId("rawId").addField("a", "a".repeat(100));
+
+    expect(() => button(id, {})).toThrow(DataCustomIdLengthError);
+  });
+});
+
+describe("uniqueness", () => {
+  const customId = new DataCustomId("vote").addField("poll", "1");
+
+  test("disambiguates identical custom IDs in a row", () => {
+    const row = actionRow(
+      button(customId, { label: "A" }),
+      button(customId, { label: "B" }),
+      button(customId, { label: "C" })
+    );
+
+    expect(row.type).toBe(1);
+    expect(row.components.map((c) => c.custom_id)).toStrictEqual([
+      "vote?poll=1",
+      "vote?poll=1&$d=1",
+      "vote?poll=1&$d=2",
+    ]);
+  });
+
+  test("discriminators aren't fields", () => {
+    const row = actionRow(button(customId, {}), button(customId, {}));
+    const parsed = new DataCustomId(row.components[1].custom_id);
+
+    expect(parsed.getFields()).toStrictEqual({ poll: "1" });
+    expect(parsed.discriminator).toBe(1);
+  });
+
+  test("skips discriminators that are already used", () => {
+    const withDiscriminator = customId.clone();
+    withDiscriminator.discriminator = 1;
+    const row = actionRow(
+      button(customId, {}),
+      button(withDiscriminator, {}),
+      button(customId, {})
+    );
+
+    expect(row.components.map((c) => c.custom_id)).toStrictEqual([
+      "vote?poll=1",
+      "vote?poll=1&$d=1",
+      "vote?poll=1&$d=2",
+    ]);
+  });
+
+  test("signs disambiguated custom IDs", () => {
+    const signing = { secret: "secret" };
+    const signed = DataCustomId.create("vote", { signing }).addField(
+      "poll",
+      "1"
+    );
+    const row = actionRow(button(signed, {}), button(signed, {}));
+
+    expect(
+      row.components.every((c) => DataCustomId.verify(c.custom_id, signing))
+    ).toBe(true);
+    expect(row.components[0].custom_id).not.toBe(row.components[1].custom_id);
+  });
+
+  test("gives single-use duplicates their own nonce", () => {
+    const singleUse = new DataCustomId("vote")
+      .addField("poll", "1")
+      .setSingleUse();
+    const row = actionRow(button(singleUse, {}), button(singleUse, {}));
+    const [first, second] = row.components.map(
+      (c) => new DataCustomId(c.custom_id)
+    );
+    const store = new MemoryNonceStore();
+
+    expect(first.nonce).toBe(singleUse.nonce);
+    expect(second.nonce).toBeDefined();
+    expect(second.nonce).not.toBe(first.nonce);
+    first.consume(store);
+    expect(() => second.consume(store)).not.toThrow();
+  });
+
+  test("disambiguates across a message's rows", () => {
+    const rows = messageComponents(
+      actionRow(button(customId, {})),
+      actionRow(button(customId, {}), button(new DataCustomId("other"), {}))
+    );
+
+    expect(
+      rows.map((row) => row.components.map((c) => c.custom_id))
+    ).toStrictEqual([["vote?poll=1"], ["vote?poll=1&$d=1", "other"]]);
+  });
+
+  test("throws for duplicates that weren't created with the helpers", () => {
+    const plain = {
+      type: 2 as const,
+      style: 1,
+      custom_id: "vote?poll=1",
+    };
+
+    expect(() => actionRow(plain, { ...plain })).toThrow(
+      DataCustomIdDuplicateError
+    );
+  });
+
+  test("modal", () => {
+    const input = textInput(new DataCustomId("reason"), { label: "Reason" });
+
+    expect(
+      modal(new DataCustomId("ban/modal?user=1"), {
+        title: "Ban",
+        components: [input, input],
+      })
+    ).toStrictEqual({
+      title: "Ban",
+      custom_id: "ban/modal?user=1",
+      components: [
+        { type: 1, components: [input] },
+        { type: 1, components: [{ ...input, custom_id: "reason?$d=1" }] },
+      ],
+    });
+  });
+});
+
+describe("fromInteraction", () => {
+  test("parses discord.js interactions", () => {
+    const customId = fromInteraction({ customId: "ban/confirm?user=1" });
+
+    expect(customId.rawId).toBe("ban/confirm");
+    expect(customId.getStringField("user")).toBe("1");
+  });
+
+  test("parses API interactions", () => {
+    expect(fromInteraction({ data: { custom_id: "ban/confirm" } }).rawId).toBe(
+      "ban/confirm"
+    );
+  });
+
+  test("passes options", () => {
+    expect(() =>
+      fromInteraction(
+        { customId: "ban/confirm?user=1" },
+        { signing: { secret: "secret" } }
+      )
+    ).toThrow();
+  });
+
+  test("throws without a custom ID", () => {
+    expect(() => fromInteraction({ data: {} })).toThrow();
+  });
+});
+
+describe("interactionUser", () => {
+  test("reads discord.js interactions", () => {
+    const roles = new Map([
+      ["5", { id: "5" }],
+      ["6", { id: "6" }],
+    ]);
+    const interaction = {
+      user: { id: "1" },
+      member: {
+        roles: {
+          cache: {
+            map: <T>(fn: (role: { id: string }) => T) =>
+              Array.from(roles.values()).map(fn),
+          },
+        },
+      },
+      guildId: "9",
+    };
+
+    expect(interactionUser(interaction)).toStrictEqual({
+      userId: "1",
+      roleIds: ["5", "6"],
+      guildId: "9",
+    });
+  });
+
+  test("reads API interactions", () => {
+    expect(
+      interactionUser({
+        member: { user: { id: "1" }, roles: ["5"] },
+        guild_id: "9",
+      })
+    ).toStrictEqual({ userId: "1", roleIds: ["5"], guildId: "9" });
+    expect(interactionUser({ user: { id: "1" } })).toStrictEqual({
+      userId: "1",
+      roleIds: [],
+      guildId: undefined,
+    });
+    expect(() => interactionUser({})).toThrow();
+  });
+
+  test("rejects clicks by others", () => {
+    const id = new DataCustomId("ban/confirm")
+      .setOwner({ roleId: "5", guildId: "9" })
+      .toString();
+    const interaction = (roles: string[]) => ({
+      customId: id,
+      member: { user: { id: "1" }, roles },
+      guild_id: "9",
+    });
+
+    expect(
+      fromInteraction(interaction(["5"]), {
+        clickedBy: interactionUser(interaction(["5"])),
+      }).rawId
+    ).toBe("ban/confirm");
+    expect(() =>
+      fromInteraction(interaction([]), {
+        clickedBy: interactionUser(interaction([])),
+      })
+    ).toThrow(DataCustomIdOwnershipError);
+  });
+});
+
+describe("select menu options", () => {
+  test("selectMenuOption encodes the value", () => {
+    const value = new DataCustomIdOptionValue().addField("role", "mod");
+
+    expect(selectMenuOption(value, { label: "Moderator" })).toStrictEqual({
+      label: "Moderator",
+      value: "role=mod",
+    });
+  });
+
+  test("selectedValues parses discord.js and API interactions", () => {
+    const values = ["role=mod&days=7", "role=admin"];
+
+    for (const interaction of [{ values }, { data: { values } }]) {
+      const parsed = selectedValues(interaction);
+      expect(parsed.map((value) => value.getFields())).toStrictEqual([
+        { role: "mod", days: "7" },
+        { role: "admin" },
+      ]);
+    }
+  });
+
+  test("selectedValues parses typed fields with a schema", () => {
+    const schema = new DataCustomIdSchema({
+      role: { type: "string" },
+      days: { type: "number", default: 1 },
+    });
+
+    expect(
+      selectedValues({ values: ["role=mod&days=7", "role=admin"] }, schema)
+    ).toStrictEqual([
+      { role: "mod", days: 7 },
+      { role: "admin", days: 1 },
+    ]);
+  });
+
+  test("selectedValues passes options", () => {
+    const signing = { secret: "secret" };
+    const value = DataCustomIdOptionValue.create("", { signing })
+      .addField("role", "mod")
+      .toString();
+
+    expect(
+      selectedValues({ values: [value] }, { signing })[0].getStringField("role")
+    ).toBe("mod");
+    expect(() =>
+      selectedValues({ values: ["role=mod"] }, { signing })
+    ).toThrow();
+  });
+
+  test("throws without selected values", () => {
+    expect(() => selectedValues({ data: {} })).toThrow();
+  });
+});
+
+describe("modal carry-over", () => {
+  const origin = new DataCustomId("ticket/close").addFields({
+    user: "42",
+    ticket: 7,
+  });
+
+  test("carryOverModal carries the origin's fields", () => {
+    expect(
+      carryOverModal(origin, {
+        title: "Close ticket",
+        inputs: { reason: { label: "Reason" } },
+      })
+    ).toStrictEqual({
+      title: "Close ticket",
+      custom_id: "ticket/close?user=42&ticket=7",
+      components: [
+        {
+          type: 1,
+          components: [
+            { type: 4, style: 1, label: "Reason", custom_id: "reason" },
+          ],
+        },
+      ],
+    });
+
+    expect(
+      carryOverModal(new ImmutableDataCustomId(origin), {
+        title: "Close ticket",
+        rawId: "ticket/closed",
+        inputs: {},
+      }).custom_id
+    ).toBe("ticket/closed?user=42&ticket=7");
+    expect(origin.rawId).toBe("ticket/close");
+  });
+
+  test("carryOverModal doesn't sign the text inputs' keys", () => {
+    defaultOptions.signing = { secret: "secret" };
+    try {
+      const { custom_id, components } = carryOverModal(origin, {
+        title: "Close ticket",
+        inputs: { reason: { label: "Reason" } },
+      });
+      expect(components[0].components[0].custom_id).toBe("reason");
+      expect(
+        modalSubmission({
+          customId: custom_id,
+          components: [{ components: [{ customId: "reason", value: "spam" }] }],
+        }).getFields()
+      ).toStrictEqual({ user: "42", ticket: "7", reason: "spam" });
+    } finally {
+      delete defaultOptions.signing;
+    }
+  });
+
+  const submission = (customId: string) => ({
+    customId,
+    components: [
+      { components: [{ customId: "reason", value: "solved" }] },
+      { components: [{ customId: "ticket", value: "8" }] },
+    ],
+  });
+
+  test("modalSubmission merges carried fields and text inputs", () => {
+    const { custom_id } = carryOverModal(origin, {
+      title: "Close ticket",
+      inputs: { reason: { label: "Reason" }, ticket: { label: "Ticket" } },
+    });
+
+    expect(modalSubmission(submission(custom_id)).getFields()).toStrictEqual({
+      user: "42",
+      ticket: "7",
+      reason: "solved",
+    });
+    expect(
+      modalSubmission(submission(custom_id), {
+        prefer: "submitted",
+      }).getFields()
+    ).toStrictEqual({ user: "42", ticket: "8", reason: "solved" });
+  });
+
+  test("modalSubmission parses API interactions", () => {
+    expect(
+      modalSubmission({
+        data: {
+          custom_id: "ticket/close?user=42",
+          components: [
+            { components: [{ custom_id: "reason", value: "solved" }] },
+          ],
+        },
+      }).getFields()
+    ).toStrictEqual({ user: "42", reason: "solved" });
+  });
+
+  test("modalSubmission returns typed fields with a schema", () => {
+    const schema = new DataCustomIdSchema({
+      user: { type: "string" },
+      ticket: { type: "number" },
+      reason: { type: "string" },
+    });
+
+    expect(
+      modalSubmission(submission("ticket/close?user=42&ticket=7"), schema, {
+        prefer: "submitted",
+      })
+    ).toStrictEqual({ user: "42", ticket: 8, reason: "solved" });
+  });
+
+  test("modalSubmission passes options", () => {
+    const signing = { secret: "secret" };
+    const customId = DataCustomId.create("ticket/close", { signing })
+      .addField("user", "42")
+      .toString();
+
+    expect(
+      modalSubmission(submission(customId), { signing }).getStringField("user")
+    ).toBe("42");
+    expect(() =>
+      modalSubmission(submission("ticket/close?user=1"), { signing })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,649 @@
+import DataCustomId, {
+  DataCustomIdEncodeOptions,
+  DataCustomIdFields,
+  DataCustomIdOptions,
+  DataCustomIdUser,
+} from "./DataCustomId";
+import DataCustomIdOptionValue from "./DataCustomIdOptionValue";
+import DataCustomIdSchema, {
+  DataCustomIdSchemaDefinition,
+  DataCustomIdSchemaFields,
+} from "./DataCustomIdSchema";
+import ImmutableDataCustomId from "./ImmutableDataCustomId";
+
+/**
+ * A DataCustomId or ImmutableDataCustomId, which components can be created from.
+ */
+export type AnyDataCustomId = DataCustomId | ImmutableDataCustomId;
+
+/**
+ * Button styles that use custom IDs. The values match discord.js's `ButtonStyle`,
+ * which can be used instead.
+ */
+export const DataCustomIdButtonStyle = {
+  Primary: 1,
+  Secondary: 2,
+  Success: 3,
+  Danger: 4,
+} as const;
+
+/**
+ * Text input styles. The values match discord.js's `TextInputStyle`,
+ * which can be used instead.
+ */
+export const DataCustomIdTextInputStyle = {
+  Short: 1,
+  Paragraph: 2,
+} as const;
+
+export interface DataCustomIdEmoji {
+  id?: string;
+  name?: string;
+  animated?: boolean;
+}
+
+/**
+ * A button, as sent to Discord's API.
+ */
+export interface DataCustomIdButton {
+  type: 2;
+  style: number;
+  custom_id: string;
+  label?: string;
+  emoji?: DataCustomIdEmoji;
+  disabled?: boolean;
+}
+
+export interface DataCustomIdSelectMenuOption {
+  label: string;
+  value: string;
+  description?: string;
+  emoji?: DataCustomIdEmoji;
+  default?: boolean;
+}
+
+/**
+ * A string select menu, as sent to Discord's API.
+ */
+export interface DataCustomIdSelectMenu {
+  type: 3;
+  custom_id: string;
+  options: DataCustomIdSelectMenuOption[];
+  placeholder?: string;
+  min_values?: number;
+  max_values?: number;
+  disabled?: boolean;
+}
+
+/**
+ * A text input for modals, as sent to Discord's API.
+ */
+export interface DataCustomIdTextInput {
+  type: 4;
+  custom_id: string;
+  style: number;
+  label: string;
+  min_length?: number;
+  max_length?: number;
+  required?: boolean;
+  value?: string;
+  placeholder?: string;
+}
+
+export type DataCustomIdComponent =
+  | DataCustomIdButton
+  | DataCustomIdSelectMenu
+  | DataCustomIdTextInput;
+
+/**
+ * An action row, as sent to Discord's API.
+ */
+export interface DataCustomIdActionRow<
+  T extends DataCustomIdComponent = DataCustomIdComponent
+> {
+  type: 1;
+  components: T[];
+}
+
+/**
+ * A modal, as sent to Discord's API.
+ */
+export interface DataCustomIdModal {
+  custom_id: string;
+  title: string;
+  components: DataCustomIdActionRow<DataCustomIdTextInput>[];
+}
+
+/**
+ * The parts of an interaction needed to parse its custom ID: either a discord.js
+ * interaction (with `customId`), or an interaction from Discord's API (with `data.custom_id`).
+ */
+export interface DataCustomIdInteraction {
+  customId?: string;
+  data?: { custom_id?: string };
+}
+
+/**
+ * The parts of an interaction needed to know who used it: either a discord.js interaction
+ * (with `user`, `member` and `guildId`), or an interaction from Discord's API (with `member` or `user`, and `guild_id`).
+ */
+export interface DataCustomIdUserInteraction {
+  user?: { id: string } | null;
+  member?: {
+    user?: { id: string };
+    // an array from Discord's API, or a discord.js GuildMemberRoleManager
+    roles?:
+      | readonly string[]
+      | { cache: { map<T>(fn: (role: { id: string }) => T): T[] } };
+  } | null;
+  guildId?: string | null;
+  guild_id?: string;
+}
+
+/**
+ * The parts of a select menu interaction needed to parse its selected values: either a
+ * discord.js interaction (with `values`), or an interaction from Discord's API (with `data.values`).
+ */
+export interface DataCustomIdSelectInteraction {
+  values?: readonly string[];
+  data?: { values?: readonly string[] };
+}
+
+/**
+ * The parts of a modal submit interaction needed to read what the user typed: either a
+ * discord.js interaction (with `customId` and `components`), or an interaction from
+ * Discord's API (with `data.custom_id` and `data.components`).
+ */
+export interface DataCustomIdModalSubmitInteraction {
+  customId?: string;
+  components?: readonly DataCustomIdSubmittedRow[];
+  data?: {
+    custom_id?: string;
+    components?: readonly DataCustomIdSubmittedRow[];
+  };
+}
+
+/**
+ * A submitted action row, with the text inputs' custom IDs and values.
+ */
+export interface DataCustomIdSubmittedRow {
+  components: readonly {
+    customId?: string;
+    custom_id?: string;
+    value?: string;
+  }[];
+}
+
+/**
+ * Options for parsing a modal submission.
+ */
+export interface DataCustomIdModalSubmitOptions extends DataCustomIdOptions {
+  /**
+   * Which value to keep when a carried field and a text input have the same name:
+   * `"carried"` (the default) keeps the field from the button, so users can't change it,
+   * and `"submitted"` keeps what the user typed.
+   */
+  prefer?: "carried" | "submitted";
+}
+
+/**
+ * DataCustomIdDuplicateError is thrown when components in one action row, message or modal
+ * have the same custom ID, and it can't be made unique because the component
+ * wasn't created with these helpers.
+ */
+export class DataCustomIdDuplicateError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdDuplicateError";
+  }
+}
+
+interface ComponentSource {
+  customId: DataCustomId;
+  compressionOptions?: DataCustomIdEncodeOptions;
+}
+
+// the custom IDs components were created from, so duplicates can be re-encoded
+const sources = new WeakMap<object, ComponentSource>();
+
+/**
+ * Returns a mutable copy of a custom ID, so it can be changed without changing the original.
+ */
+function toMutable(customId: AnyDataCustomId): DataCustomId {
+  return customId instanceof ImmutableDataCustomId
+    ? customId.toDataCustomId()
+    : customId.clone();
+}
+
+/**
+ * Encodes a custom ID and remembers it, so the component can be made unique later.
+ */
+function withCustomId<T extends DataCustomIdComponent | DataCustomIdModal>(
+  customId: AnyDataCustomId,
+  compressionOptions: DataCustomIdEncodeOptions | undefined,
+  component: Omit<T, "custom_id">
+): T {
+  const source = { customId: toMutable(customId), compressionOptions };
+  const result = {
+    ...component,
+    custom_id: source.customId.toString(compressionOptions),
+  } as T;
+
+  sources.set(result, source);
+  return result;
+}
+
+/**
+ * Makes every custom ID unique, by setting the `discriminator` of duplicates.
+ * Single-use duplicates get their own nonce, so using one doesn't use up the others.
+ * @throws {DataCustomIdDuplicateError} if a duplicate wasn't created with these helpers.
+ */
+function makeUnique<T extends DataCustomIdComponent>(components: T[]): T[] {
+  // without a prototype, so custom IDs like "constructor" aren't taken
+  const taken: { [customId: string]: boolean } = Object.create(null);
+  for (const component of components) {
+    taken[component.custom_id] = true;
+  }
+
+  const seen: { [customId: string]: boolean } = Object.create(null);
+  return components.map((component) => {
+    if (!seen[component.custom_id]) {
+      seen[component.custom_id] = true;
+      return component;
+    }
+
+    const source = sources.get(component);
+    if (!source) {
+      throw new DataCustomIdDuplicateError(
+        `Custom IDs must be unique, but this one is used more than once: ${component.custom_id}`
+      );
+    }
+
+    const customId = source.customId.clone();
+    if (typeof customId.nonce !== "undefined") {
+      customId.setSingleUse();
+    }
+    let discriminator = customId.discriminator || 0;
+    let id: string;
+    do {
+      customId.discriminator = ++discriminator;
+      id = customId.toString(source.compressionOptions);
+    } while (taken[id]);
+
+    taken[id] = true;
+    seen[id] = true;
+
+    const unique = { ...component, custom_id: id };
+    sources.set(unique, { ...source, customId });
+    return unique;
+  });
+}
+
+/**
+ * Creates a button whose custom ID is a DataCustomId.
+ *
+ * @param customId The button's custom ID.
+ * @param props The rest of the button, like `label`. `style` defaults to `Primary`.
+ * @param compressionOptions Options used to encode the custom ID.
+ * @throws {DataCustomIdLengthError} if the custom ID is too long.
+ * @returns The button, as sent to Discord's API. discord.js accepts it anywhere a button is expected.
+ */
+export function button(
+  customId: AnyDataCustomId,
+  props: Omit<DataCustomIdButton, "type" | "custom_id" | "style"> & {
+    style?: number;
+  },
+  compressionOptions?: DataCustomIdEncodeOptions
+): DataCustomIdButton {
+  return withCustomId<DataCustomIdButton>(customId, compressionOptions, {
+    type: 2,
+    style: DataCustomIdButtonStyle.Primary,
+    ...props,
+  });
+}
+
+/**
+ * Creates a string select menu whose custom ID is a DataCustomId.
+ *
+ * @param customId The select menu's custom ID.
+ * @param props The rest of the select menu, like `options`.
+ * @param compressionOptions Options used to encode the custom ID.
+ * @throws {DataCustomIdLengthError} if the custom ID is too long.
+ * @returns The select menu, as sent to Discord's API.
+ */
+export function selectMenu(
+  customId: AnyDataCustomId,
+  props: Omit<DataCustomIdSelectMenu, "type" | "custom_id">,
+  compressionOptions?: DataCustomIdEncodeOptions
+): DataCustomIdSelectMenu {
+  return withCustomId<DataCustomIdSelectMenu>(customId, compressionOptions, {
+    type: 3,
+    ...props,
+  });
+}
+
+/**
+ * Creates a select menu option whose value is a DataCustomIdOptionValue.
+ *
+ * @param value The option's value.
+ * @param props The rest of the option, like `label`.
+ * @param compressionOptions Options used to encode the value.
+ * @throws {DataCustomIdLengthError} if the value is too long.
+ * @returns The option, as sent to Discord's API.
+ */
+export function selectMenuOption(
+  value: DataCustomIdOptionValue,
+  props: Omit<DataCustomIdSelectMenuOption, "value">,
+  compressionOptions?: DataCustomIdEncodeOptions
+): DataCustomIdSelectMenuOption {
+  return { ...props, value: value.toString(compressionOptions) };
+}
+
+/**
+ * Creates a text input, for modals, whose custom ID is a DataCustomId.
+ *
+ * @param customId The text input's custom ID.
+ * @param props The rest of the text input, like `label`. `style` defaults to `Short`.
+ * @param compressionOptions Options used to encode the custom ID.
+ * @throws {DataCustomIdLengthError} if the custom ID is too long.
+ * @returns The text input, as sent to Discord's API.
+ */
+export function textInput(
+  customId: AnyDataCustomId,
+  props: Omit<DataCustomIdTextInput, "type" | "custom_id" | "style"> & {
+    style?: number;
+  },
+  compressionOptions?: DataCustomIdEncodeOptions
+): DataCustomIdTextInput {
+  return withCustomId<DataCustomIdTextInput>(customId, compressionOptions, {
+    type: 4,
+    style: DataCustomIdTextInputStyle.Short,
+    ...props,
+  });
+}
+
+/**
+ * Creates an action row, making custom IDs in it unique.
+ *
+ * Components with identical custom IDs, like two buttons with the same state,
+ * get a `discriminator` so Discord accepts them.
+ *
+ * @param components The row's components.
+ * @throws {DataCustomIdDuplicateError} if custom IDs are duplicated, and a duplicate wasn't created with these helpers.
+ * @returns The action row, as sent to Discord's API.
+ */
+export function actionRow<T extends DataCustomIdComponent>(
+  ...components: T[]
+): DataCustomIdActionRow<T> {
+  return { type: 1, components: makeUnique(components) };
+}
+
+/**
+ * Makes custom IDs unique across all of a message's action rows, since Discord
+ * requires custom IDs to be unique in a message, not just in a row.
+ *
+ * @param rows The message's action rows.
+ * @throws {DataCustomIdDuplicateError} if custom IDs are duplicated, and a duplicate wasn't created with these helpers.
+ * @returns New action rows, to use as the message's `components`.
+ */
+export function messageComponents<T extends DataCustomIdComponent>(
+  ...rows: DataCustomIdActionRow<T>[]
+): DataCustomIdActionRow<T>[] {
+  const components = makeUnique(
+    rows.reduce<T[]>((all, row) => all.concat(row.components), [])
+  );
+
+  let index = 0;
+  return rows.map((row) => ({
+    ...row,
+    components: row.components.map(() => components[index++]),
+  }));
+}
+
+/**
+ * Creates a modal whose custom ID is a DataCustomId, with one text input per row.
+ * Text inputs' custom IDs are made unique.
+ *
+ * @param customId The modal's custom ID.
+ * @param props The modal's title and text inputs.
+ * @param compressionOptions Options used to encode the custom ID.
+ * @throws {DataCustomIdLengthError} if the custom ID is too long.
+ * @returns The modal, as sent to Discord's API.
+ */
+export function modal(
+  customId: AnyDataCustomId,
+  props: { title: string; components: DataCustomIdTextInput[] },
+  compressionOptions?: DataCustomIdEncodeOptions
+): DataCustomIdModal {
+  return withCustomId<DataCustomIdModal>(customId, compressionOptions, {
+    title: props.title,
+    components: makeUnique(props.components).map((component) =>
+      actionRow(component)
+    ),
+  });
+}
+
+/**
+ * Creates a modal that carries the fields of the custom ID that opened it, like a button's,
+ * into its own custom ID. Each text input's custom ID is its key, so `modalSubmission`
+ * can merge what the user typed with the carried fields.
+ *
+ * @param origin The custom ID whose fields are carried over, like the button's.
+ * @param props The modal's title, text inputs by key, and optionally a different raw ID.
+ * @param compressionOptions Options used to encode the modal's custom ID.
+ * @throws {DataCustomIdLengthError} if the modal's custom ID is too long.
+ * @returns The modal, as sent to Discord's API.
+ */
+export function carryOverModal(
+  origin: AnyDataCustomId,
+  props: {
+    title: string;
+    rawId?: string;
+    inputs: {
+      [key: string]: Omit<
+        DataCustomIdTextInput,
+        "type" | "custom_id" | "style"
+      > & { style?: number };
+    };
+  },
+  compressionOptions?: DataCustomIdEncodeOptions
+): DataCustomIdModal {
+  const customId = toMutable(origin);
+
+  return modal(
+    typeof props.rawId === "string" ? customId.clone(props.rawId) : customId,
+    {
+      title: props.title,
+      // without defaultOptions, so the keys are never signed or encoded
+      components: Object.keys(props.inputs).map((key) =>
+        textInput(DataCustomId.create(key, {}), props.inputs[key])
+      ),
+    },
+    compressionOptions
+  );
+}
+
+/**
+ * Parses a modal submission: the carried fields of the modal's custom ID,
+ * merged with the values of its text inputs, by their custom IDs.
+ *
+ * @param interaction A discord.js interaction, or an interaction from Discord's API.
+ * @param options Options passed to the DataCustomId constructor, like `signing`, and `prefer`.
+ * @throws {Error} if the interaction doesn't have a custom ID.
+ * @returns The modal's custom ID, with a field for each text input.
+ */
+export function modalSubmission(
+  interaction: DataCustomIdModalSubmitInteraction,
+  options?: DataCustomIdModalSubmitOptions
+): DataCustomId;
+/**
+ * Parses a modal submission into a typed fields object: the carried fields of the modal's
+ * custom ID, merged with the values of its text inputs, by their custom IDs.
+ *
+ * @param interaction A discord.js interaction, or an interaction from Discord's API.
+ * @param schema The schema of the merged fields.
+ * @param options Options passed to the DataCustomId constructor, like `signing`, and `prefer`.
+ * @throws {Error} if the interaction doesn't have a custom ID.
+ * @returns The typed, merged fields.
+ */
+export function modalSubmission<S extends DataCustomIdSchemaDefinition>(
+  interaction: DataCustomIdModalSubmitInteraction,
+  schema: DataCustomIdSchema<S>,
+  options?: DataCustomIdModalSubmitOptions
+): DataCustomIdSchemaFields<S>;
+export function modalSubmission<S extends DataCustomIdSchemaDefinition>(
+  interaction: DataCustomIdModalSubmitInteraction,
+  schemaOrOptions?: DataCustomIdSchema<S> | DataCustomIdModalSubmitOptions,
+  options?: DataCustomIdModalSubmitOptions
+): DataCustomId | DataCustomIdSchemaFields<S> {
+  const schema =
+    schemaOrOptions instanceof DataCustomIdSchema ? schemaOrOptions : undefined;
+  const { prefer = "carried", ...customIdOptions } =
+    (schemaOrOptions instanceof DataCustomIdSchema
+      ? options
+      : schemaOrOptions) || {};
+
+  // without options, the constructor uses defaultOptions
+  const customId = fromInteraction(
+    interaction,
+    Object.keys(customIdOptions).length ? customIdOptions : undefined
+  );
+
+  const rows =
+    interaction.components ||
+    (interaction.data && interaction.data.components) ||
+    [];
+  const submitted: DataCustomIdFields = {};
+  for (const row of rows) {
+    for (const component of row.components) {
+      const key =
+        typeof component.customId === "string"
+          ? component.customId
+          : component.custom_id;
+      if (typeof key === "string" && typeof component.value === "string") {
+        submitted[key] = component.value;
+      }
+    }
+  }
+
+  const carried = customId.getFields();
+  customId.addFields(
+    prefer === "carried"
+      ? { ...submitted, ...carried }
+      : { ...carried, ...submitted }
+  );
+
+  return schema ? schema.parse(customId) : customId;
+}
+
+/**
+ * Parses the custom ID of an interaction.
+ *
+ * @param interaction A discord.js interaction, or an interaction from Discord's API.
+ * @param options Options passed to the DataCustomId constructor, like `signing`.
+ * @throws {Error} if the interaction doesn't have a custom ID.
+ * @returns The parsed DataCustomId.
+ */
+export function fromInteraction(
+  interaction: DataCustomIdInteraction,
+  options?: DataCustomIdOptions
+): DataCustomId {
+  const customId =
+    typeof interaction.customId === "string"
+      ? interaction.customId
+      : interaction.data && interaction.data.custom_id;
+
+  if (typeof customId !== "string") {
+    throw new Error("The interaction doesn't have a custom ID");
+  }
+
+  return new DataCustomId(customId, options);
+}
+
+/**
+ * Returns the user who used an interaction, with their roles and guild, to pass as the `clickedBy` option
+ * or to `isOwnedBy`.
+ *
+ * ```ts
+ * const customId = fromInteraction(interaction, { clickedBy: interactionUser(interaction) });
+ * ```
+ *
+ * @param interaction A discord.js interaction, or an interaction from Discord's API.
+ * @throws {Error} if the interaction doesn't have a user.
+ * @returns The user's ID, role IDs and guild ID.
+ */
+export function interactionUser(
+  interaction: DataCustomIdUserInteraction
+): DataCustomIdUser {
+  const { member } = interaction;
+  const user = interaction.user || (member && member.user);
+  if (!user) {
+    throw new Error("The interaction doesn't have a user");
+  }
+
+  const roles = member && member.roles;
+  return {
+    userId: user.id,
+    roleIds: !roles
+      ? []
+      : "cache" in roles
+      ? roles.cache.map((role) => role.id)
+      : roles.slice(),
+    guildId:
+      typeof interaction.guildId !== "undefined"
+        ? interaction.guildId
+        : interaction.guild_id,
+  };
+}
+
+/**
+ * Parses the selected values of a select menu interaction, whose options were
+ * created with `selectMenuOption`.
+ *
+ * @param interaction A discord.js interaction, or an interaction from Discord's API.
+ * @param options Options passed to the DataCustomIdOptionValue constructor, like `signing`.
+ * @throws {Error} if the interaction doesn't have selected values.
+ * @returns One DataCustomIdOptionValue per selected value, in the same order.
+ */
+export function selectedValues(
+  interaction: DataCustomIdSelectInteraction,
+  options?: DataCustomIdOptions
+): DataCustomIdOptionValue[];
+/**
+ * Parses the selected values of a select menu interaction into typed fields objects.
+ *
+ * @param interaction A discord.js interaction, or an interaction from Discord's API.
+ * @param schema The schema the values were created with.
+ * @param options Options passed to the DataCustomIdOptionValue constructor, like `signing`.
+ * @throws {Error} if the interaction doesn't have selected values.
+ * @returns The typed fields of each selected value, in the same order.
+ */
+export function selectedValues<S extends DataCustomIdSchemaDefinition>(
+  interaction: DataCustomIdSelectInteraction,
+  schema: DataCustomIdSchema<S>,
+  options?: DataCustomIdOptions
+): DataCustomIdSchemaFields<S>[];
+export function selectedValues<S extends DataCustomIdSchemaDefinition>(
+  interaction: DataCustomIdSelectInteraction,
+  schemaOrOptions?: DataCustomIdSchema<S> | DataCustomIdOptions,
+  options?: DataCustomIdOptions
+): DataCustomIdOptionValue[] | DataCustomIdSchemaFields<S>[] {
+  const values =
+    interaction.values || (interaction.data && interaction.data.values);
+
+  if (!values) {
+    throw new Error("The interaction doesn't have selected values");
+  }
+
+  if (schemaOrOptions instanceof DataCustomIdSchema) {
+    const schema = schemaOrOptions;
+    return values.map((value) =>
+      schema.parse(new DataCustomIdOptionValue(value, options))
+    );
+  }
+
+  return values.map(
+    (value) => new DataCustomIdOptionValue(value, schemaOrOptions)
+  );
+}
@@ -0,0 +1,139 @@
+import DataCustomId, { DataCustomIdSignatureError } from "./DataCustomId";
+import DataCustomIdFlow, { DataCustomIdFlowError } from "./DataCustomIdFlow";
+
+function onboarding(
+  options?: ConstructorParameters<typeof DataCustomIdFlow>[1]
+) {
+  return new DataCustomIdFlow("onboarding", options)
+    .step("name", { fields: ["name"], next: "role", cancel: true })
+    .step("role", {
+      fields: ["role"],
+      next: "done",
+      back: "name",
+      cancel: true,
+    })
+    .step("done", { back: "role", jump: ["name"] });
+}
+
+describe("DataCustomIdFlow", () => {
+  test("starts at the first step", () => {
+    expect(onboarding().start({ ticket: "1" })).toStrictEqual({
+      step: "name",
+      fields: { ticket: "1" },
+      cancelled: false,
+    });
+  });
+
+  test("builds buttons that carry fields to the next step", () => {
+    const flow = onboarding();
+    const id = flow.button(flow.start(), "next", { name: "Ada" }).toString();
+
+    expect(id).toBe("onboarding/name/next?name=Ada");
+    expect(flow.parse(id)).toStrictEqual({
+      step: "role",
+      fields: { name: "Ada" },
+      from: "name",
+      transition: "next",
+      cancelled: false,
+    });
+  });
+
+  test("accumulates fields across steps", () => {
+    const flow = onboarding();
+    const role = flow.parse(
+      flow
+        .button(flow.start({ ticket: "1" }), "next", { name: "Ada" })
+        .toString()
+    );
+    const done = flow.parse(
+      flow.button(role, "next", { role: "mod" }).toString()
+    );
+
+    expect(done.step).toBe("done");
+    expect(done.fields).toStrictEqual({
+      ticket: "1",
+      name: "Ada",
+      role: "mod",
+    });
+  });
+
+  test("goes back, cancels and jumps", () => {
+    const flow = onboarding();
+    const role = { step: "role", fields: { name: "Ada" } };
+
+    expect(flow.parse(flow.button(role, "back").toString())).toMatchObject({
+      step: "name",
+      transition: "back",
+      fields: { name: "Ada" },
+    });
+    expect(flow.parse(flow.button(role, "cancel").toString())).toMatchObject({
+      step: "role",
+      transition: "cancel",
+      cancelled: true,
+    });
+
+    const jump = flow.button({ step: "done", fields: {} }, { jump: "name" });
+    expect(jump.rawId).toBe("onboarding/done/jump/name");
+    expect(flow.parse(jump)).toMatchObject({
+      step: "name",
+      from: "done",
+      transition: "jump",
+    });
+  });
+
+  test("rejects forged transitions", () => {
+    const flow = onboarding();
+
+    for (const id of [
+      "onboarding/name/jump/done",
+      "onboarding/name/back",
+      "onboarding/done/cancel",
+      "onboarding/done/next",
+      "onboarding/missing/next",
+      "onboarding/name/skip",
+      "onboarding/name/jump",
+      "onboarding/name/next/role",
+      "onboarding/name",
+      "other/name/next",
+    ]) {
+      expect(() => flow.parse(id)).toThrow(DataCustomIdFlowError);
+    }
+  });
+
+  test("verifies signatures", () => {
+    const flow = onboarding({ signing: { secret: "secret" } });
+    const id = flow.button(flow.start(), "next", { name: "Ada" }).toString();
+
+    expect(flow.parse(id).step).toBe("role");
+    expect(() => flow.parse(id.replace("next", "back"))).toThrow(
+      DataCustomIdSignatureError
+    );
+  });
+
+  test("rejects invalid buttons", () => {
+    const flow = onboarding().step("broken", { next: "missing" });
+
+    expect(() => flow.button(flow.start(), "back")).toThrow();
+    expect(() => flow.button(flow.start(), { jump: "done" })).toThrow();
+    expect(() => flow.button(flow.start(), "next", { role: "mod" })).toThrow();
+    expect(() => flow.button({ step: "broken", fields: {} }, "next")).toThrow();
+    expect(() =>
+      flow.button({ step: "missing", fields: {} }, "next")
+    ).toThrow();
+  });
+
+  test("rejects invalid steps", () => {
+    expect(() => onboarding().step("name")).toThrow();
+    expect(() => onboarding().step("a/b")).toThrow();
+    expect(() => new DataCustomIdFlow("")).toThrow();
+    expect(() => new DataCustomIdFlow("flow").start()).toThrow();
+  });
+
+  test("matches its custom IDs", () => {
+    const flow = onboarding();
+
+    expect(flow.matches("onboarding/name/next?name=Ada")).toBe(true);
+    expect(flow.matches(new DataCustomId("onboarding/role/back"))).toBe(true);
+    expect(flow.matches("ban/confirm")).toBe(false);
+  });
+});
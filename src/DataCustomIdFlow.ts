@@ -0,0 +1,305 @@
+import DataCustomId, {
+  DataCustomIdFields,
+  DataCustomIdOptions,
+  EncodableDataCustomIdFieldValue,
+} from "./DataCustomId";
+
+/**
+ * Describes a step of a flow: the fields its buttons add, and where they can go.
+ */
+export interface DataCustomIdFlowStep {
+  /**
+   * The names of the fields this step's buttons add to the flow's state.
+   */
+  fields?: string[];
+  /**
+   * The step `next` buttons go to.
+   */
+  next?: string;
+  /**
+   * The step `back` buttons go to.
+   */
+  back?: string;
+  /**
+   * The steps `jump` buttons may go to.
+   */
+  jump?: string[];
+  /**
+   * Whether the flow can be cancelled from this step.
+   *
+   * @default false
+   */
+  cancel?: boolean;
+}
+
+/**
+ * How a button moves through a flow: to the next or previous step, out of the flow,
+ * or straight to another step.
+ */
+export type DataCustomIdFlowTransition =
+  | "next"
+  | "back"
+  | "cancel"
+  | { jump: string };
+
+/**
+ * Where a user is in a flow, and what they've entered so far.
+ */
+export interface DataCustomIdFlowState {
+  /**
+   * The current step. When the flow was cancelled, the step it was cancelled from.
+   */
+  step: string;
+  /**
+   * The fields added by the steps so far.
+   */
+  fields: DataCustomIdFields;
+  /**
+   * The step the user came from, or `undefined` for the first step.
+   */
+  from?: string;
+  /**
+   * The kind of transition the user clicked, like `next`, or `undefined` for the first step.
+   */
+  transition?: "next" | "back" | "cancel" | "jump";
+  /**
+   * Whether the user cancelled the flow.
+   */
+  cancelled: boolean;
+}
+
+/**
+ * DataCustomIdFlowError is thrown when a custom ID doesn't belong to the flow,
+ * or clicks a transition its step doesn't allow, like a forged jump to the last step.
+ */
+export class DataCustomIdFlowError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdFlowError";
+  }
+}
+
+const transitions = ["next", "back", "cancel", "jump"];
+
+/**
+ * DataCustomIdFlow describes a multi-step flow, like an onboarding wizard, as named steps
+ * and the transitions between them. It builds the custom IDs of each step's buttons,
+ * carrying the fields entered so far, and parses clicks back into the current step and fields.
+ *
+ * Custom IDs look like `onboarding/role/next?name=Ada`: the flow's name, the step the
+ * button is on, and the transition. Clicks on transitions the step doesn't allow are rejected,
+ * but users can still edit the step or the fields unless `signing` is enabled.
+ *
+ * ```ts
+ * const flow = new DataCustomIdFlow("onboarding", { signing: { secret } })
+ *   .step("name", { fields: ["name"], next: "role", cancel: true })
+ *   .step("role", { fields: ["role"], next: "done", back: "name", cancel: true })
+ *   .step("done", { back: "role", jump: ["name"] });
+ *
+ * const next = flow.button(flow.start(), "next", { name: "Ada" }).toString();
+ * // -> onboarding/name/next?name=Ada~AbCd1234
+ *
+ * const state = flow.parse(interaction.customId);
+ * // -> { step: "role", fields: { name: "Ada" }, from: "name", transition: "next", cancelled: false }
+ * ```
+ */
+export default class DataCustomIdFlow {
+  /**
+   * The flow's name, which is the first path part of its custom IDs.
+   */
+  public readonly name: string;
+  private readonly options?: DataCustomIdOptions;
+  private readonly steps: { [name: string]: DataCustomIdFlowStep } = {};
+  private readonly stepNames: string[] = [];
+
+  /**
+   * @param name The flow's name, which is the first path part of its custom IDs.
+   * @param options Options passed to the DataCustomId constructor, like `signing`.
+   */
+  constructor(name: string, options?: DataCustomIdOptions) {
+    DataCustomIdFlow.checkName(name);
+    this.name = name;
+    this.options = options;
+  }
+
+  /**
+   * Adds a step. The first step added is where the flow starts.
+   * Transitions may name steps that are added later.
+   *
+   * @param name The step's name.
+   * @param step The fields the step adds, and its transitions.
+   * @throws {Error} if a step with the same name was already added, or the name contains `/`, `?`, `&` or `~`.
+   * @returns The current instance for chaining.
+   */
+  public step(name: string, step: DataCustomIdFlowStep = {}): this {
+    DataCustomIdFlow.checkName(name);
+    if (this.stepNames.indexOf(name) !== -1) {
+      throw new Error(`The flow ${this.name} already has a step ${name}`);
+    }
+
+    this.steps[name] = step;
+    this.stepNames.push(name);
+    return this;
+  }
+
+  /**
+   * Returns the state at the first step, to build its buttons.
+   *
+   * @param fields Fields the flow starts with, like the ID of the ticket it's about.
+   * @throws {Error} if the flow has no steps.
+   */
+  public start(fields: DataCustomIdFields = {}): DataCustomIdFlowState {
+    if (!this.stepNames.length) {
+      throw new Error(`The flow ${this.name} has no steps`);
+    }
+
+    return { step: this.stepNames[0], fields: { ...fields }, cancelled: false };
+  }
+
+  /**
+   * Builds the custom ID of a button on the current step, carrying the fields entered so far.
+   *
+   * @param state Where the user is, from `start()` or `parse()`.
+   * @param transition Where the button goes.
+   * @param fields Fields the current step adds, which it must list in its `fields`.
+   * @throws {Error} if the step doesn't allow the transition, the transition goes to an unknown step,
+   * or a field isn't one the step adds.
+   * @returns A DataCustomId, to add an expiry or encode with `toString()`.
+   */
+  public button(
+    state: Pick<DataCustomIdFlowState, "step" | "fields">,
+    transition: DataCustomIdFlowTransition,
+    fields: { [key: string]: EncodableDataCustomIdFieldValue } = {}
+  ): DataCustomId {
+    const kind = typeof transition === "string" ? transition : "jump";
+    const target = typeof transition === "string" ? undefined : transition.jump;
+    const path = [this.name, state.step, kind];
+    if (typeof target === "string") {
+      path.push(target);
+    }
+
+    const error = this.checkTransition(state.step, kind, target);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const step = this.steps[state.step];
+    for (const key in fields) {
+      if (!step.fields || step.fields.indexOf(key) === -1) {
+        throw new Error(
+          `The step ${state.step} of the flow ${this.name} doesn't add the field ${key}`
+        );
+      }
+    }
+
+    return DataCustomId.create(path.join("/"), this.options)
+      .addFields(state.fields)
+      .addFields(fields as DataCustomIdFields);
+  }
+
+  /**
+   * Whether a custom ID is one of this flow's buttons, by its first path part.
+   *
+   * @param id The custom ID string, or an already-parsed DataCustomId.
+   */
+  public matches(id: string | DataCustomId): boolean {
+    const rawId = typeof id === "string" ? id.split("?")[0] : id.rawId;
+    return rawId.split("/")[0] === this.name;
+  }
+
+  /**
+   * Parses a click on one of the flow's buttons into the step the user is now on.
+   *
+   * @param id The custom ID string, or an already-parsed DataCustomId.
+   * @throws {DataCustomIdFlowError} if the custom ID isn't one of the flow's buttons,
+   * names an unknown step, or clicks a transition its step doesn't allow.
+   * @throws {DataCustomIdSignatureError} if signing is enabled and the signature is missing or wrong.
+   * @returns The current step, the fields entered so far, and how the user got there.
+   */
+  public parse(id: string | DataCustomId): DataCustomIdFlowState {
+    const customId =
+      typeof id === "string" ? new DataCustomId(id, this.options) : id;
+    const [name, from, kind, target, ...rest] = customId.pathParts;
+
+    if (
+      name !== this.name ||
+      rest.length ||
+      transitions.indexOf(kind) === -1 ||
+      (kind === "jump") !== (typeof target === "string")
+    ) {
+      throw new DataCustomIdFlowError(
+        `DataCustomId isn't a button of the flow ${this.name}: ${customId.rawId}`
+      );
+    }
+
+    const error = this.checkTransition(from, kind, target);
+    if (error) {
+      throw new DataCustomIdFlowError(error);
+    }
+
+    const step = this.steps[from];
+    return {
+      step:
+        kind === "jump"
+          ? target
+          : kind === "cancel"
+          ? from
+          : (step[kind as "next" | "back"] as string),
+      fields: customId.getFields(),
+      from,
+      transition: kind as DataCustomIdFlowState["transition"],
+      cancelled: kind === "cancel",
+    };
+  }
+
+  /**
+   * Checks that a step allows a transition, and that it goes to a known step.
+   * @returns Why it doesn't, or `undefined` if it does.
+   * @private
+   */
+  private checkTransition(
+    from: string,
+    kind: string,
+    target?: string
+  ): string | undefined {
+    if (this.stepNames.indexOf(from) === -1) {
+      return `The flow ${this.name} has no step ${from}`;
+    }
+
+    const step = this.steps[from];
+    const to =
+      kind === "jump"
+        ? step.jump && target && step.jump.indexOf(target) !== -1
+          ? target
+          : undefined
+        : kind === "cancel"
+        ? step.cancel
+          ? from
+          : undefined
+        : step[kind as "next" | "back"];
+    if (typeof to === "undefined") {
+      return `The step ${from} of the flow ${this.name} doesn't allow ${kind}${
+        target ? ` to ${target}` : ""
+      }`;
+    }
+    if (this.stepNames.indexOf(to) === -1) {
+      return `The flow ${this.name} has no step ${to}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks that a flow or step name can be a path part.
+   * @throws {Error} if it's empty or contains `/`, `?`, `&` or `~`.
+   * @private
+   */
+  private static checkName(name: string): void {
+    if (!name || /[/?&~]/.test(name)) {
+      throw new Error(
+        `Flow and step names can't be empty or contain /, ?, & or ~: ${name}`
+      );
+    }
+  }
+}
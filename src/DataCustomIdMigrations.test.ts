@@ -0,0 +1,48 @@
+import { DataCustomIdMigrations } from "./DataCustomIdMigrations";
+
+describe("DataCustomIdMigrations", () => {
+  test("runs migrations in order", () => {
+    const migrations = new DataCustomIdMigrations(3)
+      .add(2, (fields) => ({ ...fields, steps: `${fields.steps},2` }))
+      .add(1, (fields) => ({ ...fields, steps: `${fields.steps},1` }));
+
+    expect(migrations.migrate({ steps: "0" }, 1)).toStrictEqual({
+      steps: "0,1,2",
+    });
+    expect(migrations.migrate({ steps: "0" }, 2)).toStrictEqual({
+      steps: "0,2",
+    });
+    expect(migrations.migrate({ steps: "0" }, 3)).toStrictEqual({
+      steps: "0",
+    });
+  });
+
+  test("lists accepted versions", () => {
+    const migrations = new DataCustomIdMigrations(4)
+      .add(3, (fields) => fields)
+      .add(2, (fields) => fields);
+
+    expect(migrations.acceptedVersions()).toStrictEqual([2, 3, 4]);
+    expect(migrations.accepts(2)).toBe(true);
+    expect(migrations.accepts(1)).toBe(false);
+    expect(migrations.accepts(5)).toBe(false);
+  });
+
+  test("a gap stops older versions from being accepted", () => {
+    const migrations = new DataCustomIdMigrations(3)
+      .add(2, (fields) => fields)
+      .add(0, (fields) => fields);
+
+    expect(migrations.acceptedVersions()).toStrictEqual([2, 3]);
+  });
+
+  test("defaults to version 1", () => {
+    expect(new DataCustomIdMigrations().acceptedVersions()).toStrictEqual([1]);
+  });
+
+  test("can't migrate from the current version", () => {
+    expect(() =>
+      new DataCustomIdMigrations(2).add(2, (fields) => fields)
+    ).toThrow();
+  });
+});
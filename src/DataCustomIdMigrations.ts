@@ -0,0 +1,104 @@
+import type { DataCustomIdFields } from "./DataCustomId";
+
+/**
+ * Changes fields from the layout of one version to the layout of the next version.
+ *
+ * Migrations run in the DataCustomId constructor, so they must be synchronous.
+ */
+export type DataCustomIdMigration = (
+  fields: DataCustomIdFields
+) => DataCustomIdFields;
+
+/**
+ * A registry of migrations, which upgrade the fields of custom IDs built with
+ * older versions of your field layout to the current version.
+ *
+ * Pass it as the `migrations` option: `toString()` then encodes the current version
+ * in the custom ID, and the constructor runs every migration between the custom ID's
+ * version and the current version, so your code only ever sees the current layout.
+ *
+ * Custom IDs without a version (built before you used migrations) are version 1.
+ *
+ * ```ts
+ * const migrations = new DataCustomIdMigrations(3)
+ *   // v1 called the user "u"
+ *   .add(1, ({ u, ...fields }) => ({ ...fields, user: u }))
+ *   // v2 stored days, v3 stores hours
+ *   .add(2, (fields) => ({ ...fields, hours: Number(fields.days) * 24 }));
+ * ```
+ */
+export class DataCustomIdMigrations {
+  /**
+   * The version custom IDs are built with, and migrated to.
+   */
+  public readonly currentVersion: number;
+  private readonly migrations: {
+    [fromVersion: number]: DataCustomIdMigration;
+  } = {};
+
+  /**
+   * @param currentVersion The version custom IDs are built with. Defaults to `1`.
+   */
+  constructor(currentVersion = 1) {
+    this.currentVersion = currentVersion;
+  }
+
+  /**
+   * Registers the migration from a version to the next one.
+   *
+   * @param fromVersion The version the migration upgrades from, to `fromVersion + 1`.
+   * @param migration The function that changes the fields.
+   * @returns The current instance for chaining.
+   */
+  public add(
+    fromVersion: number,
+    migration: DataCustomIdMigration
+  ): DataCustomIdMigrations {
+    if (fromVersion >= this.currentVersion) {
+      throw new Error(
+        `Can't migrate from version ${fromVersion}, the current version is ${this.currentVersion}`
+      );
+    }
+
+    this.migrations[fromVersion] = migration;
+    return this;
+  }
+
+  /**
+   * Lists the versions that can be migrated to the current version (including it), oldest first.
+   *
+   * Removing the oldest migration stops accepting custom IDs of that version.
+   */
+  public acceptedVersions(): number[] {
+    const versions = [this.currentVersion];
+    while (this.migrations[versions[0] - 1]) {
+      versions.unshift(versions[0] - 1);
+    }
+    return versions;
+  }
+
+  /**
+   * Whether custom IDs of a version can be migrated to the current version.
+   */
+  public accepts(version: number): boolean {
+    return this.acceptedVersions().indexOf(version) !== -1;
+  }
+
+  /**
+   * Runs the migrations from a version to the current version.
+   * Check `accepts(version)` first.
+   *
+   * @param fields The fields in the layout of `version`.
+   * @param version The version the fields were built with.
+   * @returns The fields in the current layout.
+   */
+  public migrate(
+    fields: DataCustomIdFields,
+    version: number
+  ): DataCustomIdFields {
+    for (let v = version; v < this.currentVersion; v++) {
+      fields = this.migrations[v](fields);
+    }
+    return fields;
+  }
+}
@@ -0,0 +1,34 @@
+import { MemoryNonceStore } from "./DataCustomIdNonceStore";
+
+describe("MemoryNonceStore", () => {
+  test("consumes nonces once", () => {
+    const store = new MemoryNonceStore();
+
+    expect(store.consume("a")).toBe(true);
+    expect(store.consume("a")).toBe(false);
+    expect(store.consume("b")).toBe(true);
+  });
+
+  test("forgets nonces after the ttl", () => {
+    let now = 0;
+    const store = new MemoryNonceStore({ ttl: 1000, clock: () => now });
+    store.consume("a");
+
+    now = 999;
+    expect(store.consume("a")).toBe(false);
+
+    now = 1000;
+    expect(store.consume("a")).toBe(true);
+  });
+
+  test("forgets the oldest nonce when full", () => {
+    const store = new MemoryNonceStore({ maxEntries: 2 });
+    store.consume("a");
+    store.consume("b");
+    store.consume("c");
+
+    expect(store.consume("b")).toBe(false);
+    expect(store.consume("c")).toBe(false);
+    expect(store.consume("a")).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Remembers the nonces of single-use custom IDs that were already used,
+ * so replayed or double-clicked buttons can be rejected.
+ *
+ * `consume` must check and remember a nonce in one step (like Redis' `SET NX`),
+ * so two clicks handled at the same time can't both succeed.
+ *
+ * Methods may return promises, for stores like Redis or a database.
+ * Custom IDs using async stores must be consumed with `consumeAsync()`.
+ */
+export interface DataCustomIdNonceStore {
+  /**
+   * Remembers a nonce as used.
+   *
+   * @returns `true` if the nonce wasn't used before, or `false` if it was.
+   */
+  consume(nonce: string): boolean | Promise<boolean>;
+}
+
+export interface MemoryNonceStoreOptions {
+  /**
+   * The most nonces to remember. Once full, the oldest nonce is forgotten.
+   *
+   * @default 10000
+   */
+  maxEntries?: number;
+  /**
+   * How long, in milliseconds, nonces are remembered after they're used.
+   *
+   * @default 86400000 (a day)
+   */
+  ttl?: number;
+  /**
+   * Returns the current time in milliseconds. Defaults to `Date.now`.
+   */
+  clock?: () => number;
+}
+
+/**
+ * An in-memory nonce store, which remembers used nonces for a while.
+ *
+ * Forgotten nonces, like after the `ttl` or when your bot restarts, can be used again,
+ * so give single-use custom IDs an expiry shorter than the `ttl`,
+ * or use your own store if that matters.
+ */
+export class MemoryNonceStore implements DataCustomIdNonceStore {
+  // when each nonce is forgotten, in the order they were used
+  private readonly entries = new Map<string, number>();
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+  private readonly clock: () => number;
+
+  constructor(options: MemoryNonceStoreOptions = {}) {
+    this.maxEntries = options.maxEntries || 10000;
+    this.ttl = options.ttl || 24 * 60 * 60 * 1000;
+    this.clock = options.clock || Date.now;
+  }
+
+  public consume(nonce: string): boolean {
+    const now = this.clock();
+    const forgetAt = this.entries.get(nonce);
+    if (typeof forgetAt !== "undefined" && forgetAt > now) {
+      return false;
+    }
+
+    this.entries.delete(nonce);
+    this.entries.set(nonce, now + this.ttl);
+
+    // nonces are forgotten in the order they were used, so expired ones come first
+    while (this.entries.size) {
+      const oldest = this.entries.keys().next().value;
+      if (
+        this.entries.size <= this.maxEntries &&
+        (this.entries.get(oldest) as number) > now
+      ) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+
+    return true;
+  }
+}
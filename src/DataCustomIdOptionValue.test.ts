@@ -0,0 +1,111 @@
+import DataCustomId, {
+  DataCustomIdLengthError,
+  DataCustomIdMigrations,
+  DataCustomIdSignatureError,
+  MemoryStateStore,
+} from "./DataCustomId";
+import DataCustomIdOptionValue from "./DataCustomIdOptionValue";
+
+describe("DataCustomIdOptionValue", () => {
+  test("encodes fields without a raw ID", () => {
+    expect(
+      new DataCustomIdOptionValue()
+        .addFields({ role: "mod", days: 7 })
+        .toString()
+    ).toBe("role=mod&days=7");
+    expect(new DataCustomIdOptionValue().toString()).toBe("");
+  });
+
+  test("parses values", () => {
+    const value = new DataCustomIdOptionValue("role=mod&days=7");
+
+    expect(value.rawId).toBe("");
+    expect(value.getStringField("role")).toBe("mod");
+    expect(value.getNumericField("days")).toBe(7);
+  });
+
+  test("round-trips with options", () => {
+    const options = {
+      signing: { secret: "secret" },
+      typed: true,
+      migrations: new DataCustomIdMigrations(2).add(1, (fields) => fields),
+    };
+    const value = DataCustomIdOptionValue.create("", options)
+      .addFields({ role: "mod", days: 7, temporary: true })
+      .setExpiresIn(60_000)
+      .toString();
+
+    expect(value.startsWith("role=")).toBe(true);
+
+    const parsed = new DataCustomIdOptionValue(value, options);
+    expect(parsed.getFields()).toStrictEqual({
+      role: "mod",
+      days: 7,
+      temporary: true,
+    });
+    expect(parsed.expiresAt).toBeDefined();
+  });
+
+  test("signs empty values", () => {
+    const signing = { secret: "secret" };
+    const value = DataCustomIdOptionValue.create("", { signing }).toString();
+
+    expect(value).toMatch(/^~/);
+    expect(
+      new DataCustomIdOptionValue(value, { signing }).getFields()
+    ).toStrictEqual({});
+    expect(() => new DataCustomIdOptionValue("~x", { signing })).toThrow();
+  });
+
+  test("a failed create doesn't affect the next parse", () => {
+    const signing = { secret: "secret" };
+
+    expect(() =>
+      DataCustomIdOptionValue.create(5 as unknown as "", { signing })
+    ).toThrow(TypeError);
+    expect(() => new DataCustomId("ban/confirm", { signing })).toThrow(
+      DataCustomIdSignatureError
+    );
+  });
+
+  test("checks the length without a raw ID", () => {
+    const value = new DataCustomIdOptionValue().addField("a", "x".repeat(98));
+
+    expect(value.toString()).toHaveLength(100);
+    expect(value.measure()).toMatchObject({ length: 100, separators: 0 });
+
+    value.addField("b", "1");
+    expect(() => value.toString()).toThrow(DataCustomIdLengthError);
+    expect(value.measure()).toMatchObject({ length: 104, separators: 1 });
+    expect(value.toString({ droppableFields: ["b"] })).toHaveLength(100);
+  });
+
+  test("clones keep encoding as option values", () => {
+    const value = new DataCustomIdOptionValue("role=mod");
+    const clone = value.clone().addField("days", 7);
+
+    expect(clone).toBeInstanceOf(DataCustomIdOptionValue);
+    expect(clone.toString()).toBe("role=mod&days=7");
+    expect(value.toString()).toBe("role=mod");
+  });
+
+  test("stores fields that don't fit", async () => {
+    const store = new MemoryStateStore();
+    const value = new DataCustomIdOptionValue("", { store })
+      .addField("a", "x".repeat(120))
+      .toString();
+
+    expect(value).toMatch(/^\$t=/);
+
+    const parsed = await DataCustomIdOptionValue.parseAsync(value, { store });
+    expect(parsed).toBeInstanceOf(DataCustomIdOptionValue);
+    expect(parsed.getStringField("a")).toBe("x".repeat(120));
+    expect(new DataCustomIdOptionValue(value, { store }).getFields()).toEqual(
+      parsed.getFields()
+    );
+  });
+
+  test("is a DataCustomId", () => {
+    expect(new DataCustomIdOptionValue()).toBeInstanceOf(DataCustomId);
+  });
+});
@@ -0,0 +1,81 @@
+import DataCustomId, { DataCustomIdOptions } from "./DataCustomId";
+
+/**
+ * DataCustomIdOptionValue encodes fields into the `value` of a select menu option,
+ * which has the same 100-character limit as a custom ID, but no path.
+ *
+ * It has every method of DataCustomId, like `addFields`, `getStringField` and `explain`,
+ * and the same options and compression options. Only the raw ID is missing:
+ *
+ * ```ts
+ * new DataCustomIdOptionValue().addFields({ role: "mod", days: 7 }).toString();
+ * // -> role=mod&days=7
+ * ```
+ */
+export default class DataCustomIdOptionValue extends DataCustomId {
+  /**
+   * Creates an empty option value, or parses one.
+   * With `signing`, build new option values with `DataCustomIdOptionValue.create` instead.
+   *
+   * @param value The option value, as returned by `toString()`.
+   * @param options Options like `signing`. Defaults to `defaultOptions`.
+   * @throws {DataCustomIdSignatureError} if signing is enabled and the value's signature is missing or wrong.
+   * @throws {DataCustomIdExpiredError} if `rejectExpired` is enabled and the value has expired.
+   * @throws {DataCustomIdOwnershipError} if `clickedBy` is set and the value is owned by someone else.
+   * @throws {DataCustomIdStoreError} if the value's fields were stored, and can't be restored from `store`.
+   * @throws {DataCustomIdVersionError} if `migrations` are set and the value's version can't be migrated.
+   */
+  constructor(value: string = "", options?: DataCustomIdOptions) {
+    // parsed as a custom ID with an empty raw ID, unless it's only a signature
+    super(
+      value && !value.startsWith(DataCustomId.signatureSeparator)
+        ? `?${value}`
+        : value,
+      options
+    );
+  }
+
+  /**
+   * Creates an empty option value like `DataCustomId.create`, without parsing it.
+   *
+   * @param rawId Option values have no raw ID, so it must be empty.
+   * @param options Options like `signing`, used by `toString()`. Defaults to `defaultOptions`.
+   * @returns The new DataCustomIdOptionValue.
+   */
+  public static create(
+    rawId?: "",
+    options?: DataCustomIdOptions
+  ): DataCustomIdOptionValue {
+    return super.create(rawId, options) as DataCustomIdOptionValue;
+  }
+
+  /**
+   * Parses an option value like the constructor, waiting for async stores.
+   *
+   * @param value The option value, as returned by `toString()`.
+   * @param options Options like `store`. Defaults to `defaultOptions`.
+   * @returns The parsed DataCustomIdOptionValue.
+   */
+  public static parseAsync(
+    value: string,
+    options?: DataCustomIdOptions
+  ): Promise<DataCustomIdOptionValue> {
+    return super.parseAsync(value, options) as Promise<DataCustomIdOptionValue>;
+  }
+
+  /**
+   * Copies the option value. Option values have no raw ID.
+   * @returns The new DataCustomIdOptionValue.
+   */
+  public clone(): DataCustomIdOptionValue {
+    return super.clone("") as DataCustomIdOptionValue;
+  }
+
+  /**
+   * Removes the `?` before the fields. It's still signed, so values are parsed with it.
+   * @protected
+   */
+  protected formatId(id: string): string {
+    return id.startsWith("?") ? id.slice(1) : id;
+  }
+}
@@ -0,0 +1,187 @@
+import DataCustomId, { DataCustomIdSignatureError } from "./DataCustomId";
+import DataCustomIdPaginator from "./DataCustomIdPaginator";
+
+function summarize(row: ReturnType<DataCustomIdPaginator["buttons"]>) {
+  return row.components.map(({ label, custom_id, disabled }) => ({
+    label,
+    custom_id,
+    disabled,
+  }));
+}
+
+describe("DataCustomIdPaginator", () => {
+  const paginator = new DataCustomIdPaginator("warnings/page");
+
+  test("builds numbered navigation buttons", () => {
+    expect(
+      summarize(paginator.buttons({ page: 2, total: 42, sort: "newest" }))
+    ).toStrictEqual([
+      { label: "«", custom_id: "warnings/page?p=0&s=newest", disabled: false },
+      { label: "‹", custom_id: "warnings/page?p=1&s=newest", disabled: false },
+      { label: "›", custom_id: "warnings/page?p=3&s=newest", disabled: false },
+      { label: "»", custom_id: "warnings/page?p=4&s=newest", disabled: false },
+    ]);
+  });
+
+  test("disables moves out of the list", () => {
+    const first = summarize(paginator.buttons({ page: 0, total: 42 }));
+    expect(first.map(({ disabled }) => disabled)).toStrictEqual([
+      true,
+      true,
+      false,
+      false,
+    ]);
+
+    const last = summarize(paginator.buttons({ page: 4, total: 42 }));
+    expect(last.map(({ disabled }) => disabled)).toStrictEqual([
+      false,
+      false,
+      true,
+      true,
+    ]);
+
+    const only = summarize(paginator.buttons({ page: 0, total: 0 }));
+    expect(only.every(({ disabled }) => disabled)).toBe(true);
+  });
+
+  test("moves pages outside the list into it", () => {
+    const row = paginator.buttons({ page: 9, total: 42 });
+
+    expect(row.components[3].disabled).toBe(true);
+    expect(paginator.parse(row.components[1].custom_id)).toMatchObject({
+      page: 3,
+    });
+  });
+
+  test("makes buttons that go to the same page unique", () => {
+    for (const page of [0, 1, 3, 4]) {
+      const ids = paginator
+        .buttons({ page, total: 42 })
+        .components.map(({ custom_id }) => custom_id);
+      expect(new Set(ids).size).toBe(4);
+    }
+
+    const [, , next, last] = paginator.buttons({
+      page: 3,
+      total: 42,
+    }).components;
+    expect(paginator.parse(next.custom_id)).toMatchObject({ page: 4 });
+    expect(paginator.parse(last.custom_id)).toMatchObject({ page: 4 });
+  });
+
+  test("parses clicks into typed page states", () => {
+    const [, , next] = paginator.buttons({
+      page: 0,
+      pageSize: 25,
+      total: 100,
+      filter: "open",
+      sort: "oldest",
+    }).components;
+
+    expect(next.custom_id).toBe("warnings/page?p=1&n=25&f=open&s=oldest");
+    expect(paginator.parse(next.custom_id)).toStrictEqual({
+      page: 1,
+      pageSize: 25,
+      filter: "open",
+      sort: "oldest",
+    });
+    expect(paginator.parse(new DataCustomId("warnings/page"))).toStrictEqual({
+      page: 0,
+      pageSize: 10,
+    });
+  });
+
+  test("parses its own buttons with compactIntegers", () => {
+    const [, previous] = paginator.buttons(
+      { page: 13, pageSize: 25, total: 1000 },
+      { compactIntegers: true }
+    ).components;
+
+    expect(previous.custom_id).toBe("warnings/page?p=12&n=25");
+    expect(paginator.parse(previous.custom_id)).toStrictEqual({
+      page: 12,
+      pageSize: 25,
+    });
+  });
+
+  test("keeps forged pages and page sizes in range", () => {
+    expect(paginator.parse("warnings/page?p=-5&n=100000")).toStrictEqual({
+      page: 0,
+      pageSize: 100,
+    });
+    expect(paginator.parse("warnings/page?p=abc&n=0")).toStrictEqual({
+      page: 0,
+      pageSize: 10,
+    });
+  });
+
+  test("builds cursor navigation buttons", () => {
+    const middle = summarize(
+      paginator.cursorButtons({ previous: "100", next: "81", sort: "newest" })
+    );
+    expect(middle).toStrictEqual([
+      { label: "«", custom_id: "warnings/page?d=a&s=newest", disabled: false },
+      {
+        label: "‹",
+        custom_id: "warnings/page?c=100&d=b&s=newest",
+        disabled: false,
+      },
+      {
+        label: "›",
+        custom_id: "warnings/page?c=81&d=a&s=newest",
+        disabled: false,
+      },
+    ]);
+
+    expect(paginator.parse(middle[1].custom_id)).toStrictEqual({
+      pageSize: 10,
+      sort: "newest",
+      cursor: "100",
+      direction: "before",
+    });
+    expect(paginator.parse(middle[0].custom_id)).toStrictEqual({
+      pageSize: 10,
+      sort: "newest",
+      direction: "after",
+    });
+
+    const start = summarize(paginator.cursorButtons({ next: "81" }));
+    expect(start.map(({ disabled }) => disabled)).toStrictEqual([
+      true,
+      true,
+      false,
+    ]);
+    expect(new Set(start.map(({ custom_id }) => custom_id)).size).toBe(3);
+  });
+
+  test("uses options", () => {
+    const signed = new DataCustomIdPaginator("tickets", {
+      signing: { secret: "secret" },
+      pageSize: 5,
+      labels: { next: "Next" },
+    });
+    const [, , next] = signed.buttons({ page: 0, total: 20 }).components;
+
+    expect(next.label).toBe("Next");
+    expect(signed.parse(next.custom_id)).toStrictEqual({
+      page: 1,
+      pageSize: 5,
+    });
+    expect(() => signed.parse(next.custom_id.replace("p=1", "p=3"))).toThrow(
+      DataCustomIdSignatureError
+    );
+    expect(signed.matches(next.custom_id)).toBe(true);
+  });
+
+  test("matches its custom IDs", () => {
+    expect(paginator.matches("warnings/page?p=1")).toBe(true);
+    expect(paginator.matches(new DataCustomId("warnings/page"))).toBe(true);
+    expect(paginator.matches("warnings/page/other")).toBe(false);
+  });
+
+  test("counts pages", () => {
+    expect(DataCustomIdPaginator.pageCount(42, 10)).toBe(5);
+    expect(DataCustomIdPaginator.pageCount(40, 10)).toBe(4);
+    expect(DataCustomIdPaginator.pageCount(0, 10)).toBe(1);
+  });
+});
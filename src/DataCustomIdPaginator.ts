@@ -0,0 +1,360 @@
+import DataCustomId, {
+  DataCustomIdEncodeOptions,
+  DataCustomIdFields,
+  DataCustomIdOptions,
+} from "./DataCustomId";
+import {
+  actionRow,
+  button,
+  DataCustomIdActionRow,
+  DataCustomIdButton,
+  DataCustomIdButtonStyle,
+} from "./DataCustomIdDiscord";
+
+/**
+ * Options for a paginator.
+ */
+export interface DataCustomIdPaginatorOptions extends DataCustomIdOptions {
+  /**
+   * The page size used when a custom ID doesn't have one.
+   *
+   * @default 10
+   */
+  pageSize?: number;
+  /**
+   * The largest page size `parse` returns, since users can edit custom IDs to ask for huge pages.
+   *
+   * @default 100
+   */
+  maxPageSize?: number;
+  /**
+   * The navigation buttons' labels.
+   *
+   * @default { first: "«", previous: "‹", next: "›", last: "»" }
+   */
+  labels?: Partial<DataCustomIdPaginatorLabels>;
+}
+
+/**
+ * The labels of the navigation buttons.
+ */
+export interface DataCustomIdPaginatorLabels {
+  first: string;
+  previous: string;
+  next: string;
+  last: string;
+}
+
+/**
+ * What every page carries, however it's paged.
+ */
+export interface DataCustomIdPageBase {
+  /**
+   * How many items are on a page.
+   */
+  pageSize: number;
+  /**
+   * What the list is filtered by, if anything.
+   */
+  filter?: string;
+  /**
+   * What the list is sorted by, if anything.
+   */
+  sort?: string;
+}
+
+/**
+ * A page of a list paged by page number.
+ */
+export interface DataCustomIdNumberedPage extends DataCustomIdPageBase {
+  /**
+   * The page, starting at 0.
+   */
+  page: number;
+}
+
+/**
+ * A page of a list paged by cursor, like the ID of the first or last item on the page.
+ */
+export interface DataCustomIdCursorPage extends DataCustomIdPageBase {
+  /**
+   * The cursor to page from, or `undefined` for the first page.
+   */
+  cursor?: string;
+  /**
+   * Whether the page is the items before the cursor, or after it.
+   */
+  direction: "before" | "after";
+}
+
+/**
+ * A page, as parsed from a navigation button. Pages with a `page` are numbered,
+ * and pages with a `direction` are paged by cursor.
+ */
+export type DataCustomIdPageState =
+  | DataCustomIdNumberedPage
+  | DataCustomIdCursorPage;
+
+const defaultLabels: DataCustomIdPaginatorLabels = {
+  first: "«",
+  previous: "‹",
+  next: "›",
+  last: "»",
+};
+// short keys, since they're in every navigation button
+const pageKey = "p";
+const pageSizeKey = "n";
+const filterKey = "f";
+const sortKey = "s";
+const cursorKey = "c";
+const directionKey = "d";
+
+/**
+ * DataCustomIdPaginator builds the first, previous, next and last buttons of paged lists,
+ * like paged embeds, and parses clicks on them back into the page to show.
+ *
+ * Buttons carry the page, page size, filter and sort, and moves that would leave the list
+ * are disabled. Buttons that go to the same page, like next and last on the second-to-last page,
+ * get a `discriminator`, so their custom IDs are unique.
+ *
+ * ```ts
+ * const paginator = new DataCustomIdPaginator("warnings/page");
+ *
+ * await interaction.reply({
+ *   embeds: [warningsEmbed(0)],
+ *   components: [paginator.buttons({ page: 0, pageSize: 10, total: 42, sort: "newest" })],
+ * });
+ *
+ * // later, in your interaction handler
+ * if (paginator.matches(interaction.customId)) {
+ *   const state = paginator.parse(interaction.customId);
+ *   if ("page" in state) {
+ *     // state.page, state.pageSize, state.sort
+ *   }
+ * }
+ * ```
+ */
+export default class DataCustomIdPaginator {
+  /**
+   * The raw ID of the navigation buttons.
+   */
+  public readonly rawId: string;
+  private readonly options: DataCustomIdPaginatorOptions;
+
+  /**
+   * @param rawId The raw ID of the navigation buttons, like `warnings/page`.
+   * @param options Options like `pageSize`, and options passed to the DataCustomId constructor, like `signing`.
+   */
+  constructor(rawId: string, options: DataCustomIdPaginatorOptions = {}) {
+    this.rawId = rawId;
+    this.options = options;
+  }
+
+  /**
+   * Returns how many pages a list has. Empty lists have one (empty) page.
+   *
+   * @param total How many items the list has.
+   * @param pageSize How many items are on a page.
+   */
+  public static pageCount(total: number, pageSize: number): number {
+    return Math.max(1, Math.ceil(total / pageSize));
+  }
+
+  /**
+   * Builds the navigation buttons of a list paged by page number.
+   *
+   * Pages outside the list are moved into it, so the buttons of a list that shrank still work.
+   *
+   * @param state The page being shown, starting at 0, and the list's total number of items.
+   * @param compressionOptions Options used to encode the custom IDs. `compactIntegers` is ignored, since `parse` reads pages in base 10.
+   * @throws {DataCustomIdLengthError} if a custom ID is too long.
+   * @returns An action row with the first, previous, next and last buttons.
+   */
+  public buttons(
+    state: Omit<DataCustomIdNumberedPage, "pageSize"> & {
+      pageSize?: number;
+      total: number;
+    },
+    compressionOptions?: DataCustomIdEncodeOptions
+  ): DataCustomIdActionRow<DataCustomIdButton> {
+    const pageSize = state.pageSize || this.defaultPageSize();
+    const last = DataCustomIdPaginator.pageCount(state.total, pageSize) - 1;
+    const page = Math.min(Math.max(Math.floor(state.page) || 0, 0), last);
+    const labels = this.labels();
+
+    const navigate = (label: string, to: number) =>
+      button(
+        this.customId(state, pageSize, {
+          [pageKey]: String(Math.min(Math.max(to, 0), last)),
+        }),
+        {
+          label,
+          style: DataCustomIdButtonStyle.Secondary,
+          disabled: to < 0 || to > last || to === page,
+        },
+        this.encodeOptions(compressionOptions)
+      );
+
+    return actionRow(
+      navigate(labels.first, 0),
+      navigate(labels.previous, page - 1),
+      navigate(labels.next, page + 1),
+      navigate(labels.last, last)
+    );
+  }
+
+  /**
+   * Builds the navigation buttons of a list paged by cursor. There's no last button,
+   * since the last page isn't known.
+   *
+   * @param state The page being shown, with the cursors of the pages before and after it.
+   * Leave out `previous` on the first page, and `next` on the last page.
+   * @param compressionOptions Options used to encode the custom IDs. `compactIntegers` is ignored, since `parse` reads pages in base 10.
+   * @throws {DataCustomIdLengthError} if a custom ID is too long.
+   * @returns An action row with the first, previous and next buttons.
+   */
+  public cursorButtons(
+    state: Partial<DataCustomIdPageBase> & {
+      previous?: string;
+      next?: string;
+    },
+    compressionOptions?: DataCustomIdEncodeOptions
+  ): DataCustomIdActionRow<DataCustomIdButton> {
+    const pageSize = state.pageSize || this.defaultPageSize();
+    const labels = this.labels();
+
+    const navigate = (
+      label: string,
+      direction: "before" | "after",
+      cursor: string | undefined,
+      disabled: boolean
+    ) =>
+      button(
+        this.customId(
+          state,
+          pageSize,
+          typeof cursor === "string"
+            ? { [cursorKey]: cursor, [directionKey]: direction[0] }
+            : { [directionKey]: direction[0] }
+        ),
+        { label, style: DataCustomIdButtonStyle.Secondary, disabled },
+        this.encodeOptions(compressionOptions)
+      );
+
+    const first = typeof state.previous !== "string";
+    return actionRow(
+      navigate(labels.first, "after", undefined, first),
+      navigate(labels.previous, "before", state.previous, first),
+      navigate(labels.next, "after", state.next, typeof state.next !== "string")
+    );
+  }
+
+  /**
+   * Whether a custom ID is one of this paginator's buttons, by its raw ID.
+   *
+   * @param id The custom ID string, or an already-parsed DataCustomId.
+   */
+  public matches(id: string | DataCustomId): boolean {
+    const rawId = typeof id === "string" ? id.split(/[?~]/)[0] : id.rawId;
+    return rawId === this.rawId;
+  }
+
+  /**
+   * Parses a click on a navigation button into the page to show.
+   *
+   * Invalid pages are read as the first page, and page sizes are kept between 1 and `maxPageSize`.
+   * Numbered pages aren't checked against the list's total, so clamp them if the list may have shrunk.
+   *
+   * @param id The custom ID string, or an already-parsed DataCustomId.
+   * @throws {DataCustomIdSignatureError} if signing is enabled and the signature is missing or wrong.
+   * @returns The page to show. It has a `page` for numbered lists, and a `direction` for cursor-paged lists.
+   */
+  public parse(id: string | DataCustomId): DataCustomIdPageState {
+    const customId =
+      typeof id === "string" ? new DataCustomId(id, this.options) : id;
+    const fields = customId.getFields();
+    const maxPageSize = this.options.maxPageSize || 100;
+
+    const requestedPageSize = Math.floor(customId.getNumericField(pageSizeKey));
+    const base: DataCustomIdPageBase = {
+      pageSize: Math.min(
+        Math.max(requestedPageSize || this.defaultPageSize(), 1),
+        maxPageSize
+      ),
+    };
+    if (typeof fields[filterKey] === "string") {
+      base.filter = fields[filterKey] as string;
+    }
+    if (typeof fields[sortKey] === "string") {
+      base.sort = fields[sortKey] as string;
+    }
+
+    if (typeof fields[directionKey] === "string") {
+      const page: DataCustomIdCursorPage = {
+        ...base,
+        direction: fields[directionKey] === "b" ? "before" : "after",
+      };
+      if (typeof fields[cursorKey] === "string") {
+        page.cursor = fields[cursorKey] as string;
+      }
+      return page;
+    }
+
+    return {
+      ...base,
+      page: Math.max(Math.floor(customId.getNumericField(pageKey)) || 0, 0),
+    };
+  }
+
+  /**
+   * Builds a navigation button's custom ID, with the list's filter and sort.
+   * @private
+   */
+  private customId(
+    state: Partial<DataCustomIdPageBase>,
+    pageSize: number,
+    fields: DataCustomIdFields
+  ): DataCustomId {
+    const customId = DataCustomId.create(this.rawId, this.options).addFields(
+      fields
+    );
+    // the default page size is left out to save space
+    if (pageSize !== this.defaultPageSize()) {
+      customId.addField(pageSizeKey, String(pageSize));
+    }
+    if (typeof state.filter === "string") {
+      customId.addField(filterKey, state.filter);
+    }
+    if (typeof state.sort === "string") {
+      customId.addField(sortKey, state.sort);
+    }
+    return customId;
+  }
+
+  /**
+   * Removes `compactIntegers`, so page numbers and sizes stay in base 10.
+   * @private
+   */
+  private encodeOptions(
+    compressionOptions: DataCustomIdEncodeOptions | undefined
+  ): DataCustomIdEncodeOptions | undefined {
+    if (!compressionOptions || !compressionOptions.compactIntegers) {
+      return compressionOptions;
+    }
+    return { ...compressionOptions, compactIntegers: false };
+  }
+
+  /**
+   * @private
+   */
+  private defaultPageSize(): number {
+    return this.options.pageSize || 10;
+  }
+
+  /**
+   * @private
+   */
+  private labels(): DataCustomIdPaginatorLabels {
+    return { ...defaultLabels, ...this.options.labels };
+  }
+}
@@ -0,0 +1,223 @@
+import DataCustomId, { DataCustomIdSignatureError } from "./DataCustomId";
+import DataCustomIdRouter from "./DataCustomIdRouter";
+import DataCustomIdSchema from "./DataCustomIdSchema";
+
+describe("routing", () => {
+  test("calls the handler for a matching route", async () => {
+    const handler = jest.fn();
+    const router = new DataCustomIdRouter().on("ban/confirm", handler);
+
+    expect(await router.handle("ban/confirm?user=1")).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({
+      params: {},
+      fields: { user: "1" },
+      route: "ban/confirm",
+    });
+    expect(handler.mock.calls[0][0].customId).toBeInstanceOf(DataCustomId);
+  });
+
+  test("extracts named parameters", async () => {
+    const handler = jest.fn();
+    const router = new DataCustomIdRouter().on("ticket/:id/:action", handler);
+
+    await router.handle("ticket/42/close");
+
+    expect(handler.mock.calls[0][0].params).toStrictEqual({
+      id: "42",
+      action: "close",
+    });
+  });
+
+  test("first matching route wins", async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const router = new DataCustomIdRouter()
+      .on("ban/confirm", first)
+      .on("ban/:action", second);
+
+    await router.handle("ban/confirm");
+    await router.handle("ban/cancel");
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(second.mock.calls[0][0].params).toStrictEqual({ action: "cancel" });
+  });
+
+  test("doesn't match paths with a different length", async () => {
+    const handler = jest.fn();
+    const router = new DataCustomIdRouter().on("ban/:action", handler);
+
+    expect(await router.handle("ban")).toBe(false);
+    expect(await router.handle("ban/confirm/now")).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test("* matches one segment", async () => {
+    const handler = jest.fn();
+    const router = new DataCustomIdRouter().on("*/confirm", handler);
+
+    await router.handle("ban/confirm");
+    await router.handle("kick/confirm");
+    await router.handle("ban/user/confirm");
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  test("** matches the rest of the path", async () => {
+    const handler = jest.fn();
+    const router = new DataCustomIdRouter().on("settings/**", handler);
+
+    await router.handle("settings");
+    await router.handle("settings/roles/add");
+
+    expect(handler.mock.calls[0][0].params).toStrictEqual({ "**": "" });
+    expect(handler.mock.calls[1][0].params).toStrictEqual({
+      "**": "roles/add",
+    });
+  });
+
+  test("** must be the last segment", () => {
+    expect(() =>
+      new DataCustomIdRouter().on("**/confirm", jest.fn())
+    ).toThrow();
+  });
+
+  test("passes the context to handlers", async () => {
+    const handler = jest.fn();
+    const interaction = { customId: "ban/confirm" };
+    const router = new DataCustomIdRouter<typeof interaction>().on(
+      "ban/confirm",
+      handler
+    );
+
+    await router.handle(interaction.customId, interaction);
+
+    expect(handler.mock.calls[0][0].context).toBe(interaction);
+  });
+
+  test("accepts a parsed DataCustomId", async () => {
+    const handler = jest.fn();
+    const router = new DataCustomIdRouter().on("ban/confirm", handler);
+    const customId = new DataCustomId("ban/confirm?user=1");
+
+    await router.handle(customId);
+
+    expect(handler.mock.calls[0][0].customId).toBe(customId);
+  });
+
+  test("types fields with a schema", async () => {
+    const schema = new DataCustomIdSchema({
+      user: { type: "string" },
+      days: { type: "number", default: 7 },
+    });
+    const handler = jest.fn();
+    const router = new DataCustomIdRouter().on("ban/confirm", schema, (ctx) => {
+      const days: number = ctx.fields.days;
+      handler(ctx.fields.user, days);
+    });
+
+    await router.handle("ban/confirm?user=1");
+
+    expect(handler).toHaveBeenCalledWith("1", 7);
+  });
+
+  test("parses with the router's options", async () => {
+    const signing = { secret: "secret" };
+    const router = new DataCustomIdRouter({ signing }).on(
+      "ban/confirm",
+      jest.fn()
+    );
+    const id = DataCustomId.create("ban/confirm", { signing })
+      .addField("user", "1")
+      .toString();
+
+    expect(await router.handle(id)).toBe(true);
+    await expect(router.handle("ban/confirm?user=1")).rejects.toThrow(
+      DataCustomIdSignatureError
+    );
+  });
+});
+
+describe("notFound", () => {
+  test("calls the not-found handler when no route matches", async () => {
+    const notFound = jest.fn();
+    const router = new DataCustomIdRouter()
+      .on("ban/confirm", jest.fn())
+      .notFound(notFound);
+
+    expect(await router.handle("kick/confirm?user=1")).toBe(false);
+    expect(notFound).toHaveBeenCalledTimes(1);
+    expect(notFound.mock.calls[0][0]).toMatchObject({
+      params: {},
+      fields: { user: "1" },
+    });
+    expect(notFound.mock.calls[0][0].route).toBeUndefined();
+  });
+
+  test("does nothing without a not-found handler", async () => {
+    const router = new DataCustomIdRouter();
+
+    expect(await router.handle("kick/confirm")).toBe(false);
+  });
+});
+
+describe("middleware", () => {
+  test("runs middleware in order before the handler", async () => {
+    const calls: string[] = [];
+    const router = new DataCustomIdRouter()
+      .use(async (ctx, next) => {
+        calls.push("first");
+        await next();
+        calls.push("first after");
+      })
+      .use(async (ctx, next) => {
+        calls.push(`second ${ctx.route}`);
+        await next();
+      })
+      .on("ban/:action", () => {
+        calls.push("handler");
+      });
+
+    await router.handle("ban/confirm");
+
+    expect(calls).toStrictEqual([
+      "first",
+      "second ban/:action",
+      "handler",
+      "first after",
+    ]);
+  });
+
+  test("stops when next isn't called", async () => {
+    const handler = jest.fn();
+    const router = new DataCustomIdRouter<{ admin: boolean }>()
+      .use((ctx, next) => (ctx.context.admin ? next() : undefined))
+      .on("ban/confirm", handler);
+
+    await router.handle("ban/confirm", { admin: false });
+    expect(handler).not.toHaveBeenCalled();
+
+    await router.handle("ban/confirm", { admin: true });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test("runs before the not-found handler", async () => {
+    const middleware = jest.fn((ctx, next) => next());
+    const notFound = jest.fn();
+    const router = new DataCustomIdRouter().use(middleware).notFound(notFound);
+
+    await router.handle("unknown");
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+    expect(notFound).toHaveBeenCalledTimes(1);
+  });
+
+  test("errors reject handle", async () => {
+    const router = new DataCustomIdRouter().on("ban/confirm", () => {
+      throw new Error("oops");
+    });
+
+    await expect(router.handle("ban/confirm")).rejects.toThrow("oops");
+  });
+});
@@ -0,0 +1,294 @@
+import DataCustomId, {
+  DataCustomIdFields,
+  DataCustomIdOptions,
+} from "./DataCustomId";
+import DataCustomIdSchema, {
+  DataCustomIdSchemaDefinition,
+  DataCustomIdSchemaFields,
+} from "./DataCustomIdSchema";
+
+/**
+ * Path parameters extracted from a custom ID, like `{ action: "confirm" }`
+ * for the template `ban/:action` and the custom ID `ban/confirm`.
+ *
+ * `*` wildcards aren't included, but a trailing `**` is, under the key `**`.
+ */
+export interface DataCustomIdRouteParams {
+  [name: string]: string;
+}
+
+/**
+ * Everything a handler or middleware knows about the custom ID being handled.
+ */
+export interface DataCustomIdRouteContext<C = void, F = DataCustomIdFields> {
+  /**
+   * The parsed custom ID.
+   */
+  customId: DataCustomId;
+  /**
+   * Parameters from the matched path template.
+   */
+  params: DataCustomIdRouteParams;
+  /**
+   * The custom ID's fields, typed if the route has a schema.
+   */
+  fields: F;
+  /**
+   * The template of the matched route, or `undefined` if no route matched.
+   */
+  route?: string;
+  /**
+   * The value passed as the second argument of `handle`, like the interaction.
+   */
+  context: C;
+}
+
+export type DataCustomIdRouteHandler<C = void, F = DataCustomIdFields> = (
+  ctx: DataCustomIdRouteContext<C, F>
+) => unknown;
+
+/**
+ * Middleware runs before handlers. Call `next()` to continue to the next
+ * middleware or the handler, or don't to stop handling the custom ID.
+ */
+export type DataCustomIdMiddleware<C = void> = (
+  ctx: DataCustomIdRouteContext<C>,
+  next: () => Promise<void>
+) => unknown;
+
+// fields as the router stores them, typed by a schema or not
+type DataCustomIdRouteFields =
+  | DataCustomIdFields
+  | DataCustomIdSchemaFields<DataCustomIdSchemaDefinition>;
+
+interface DataCustomIdRoute<C> {
+  template: string;
+  segments: string[];
+  schema?: DataCustomIdSchema<DataCustomIdSchemaDefinition>;
+  handler: DataCustomIdRouteHandler<C, DataCustomIdRouteFields>;
+}
+
+/**
+ * DataCustomIdRouter dispatches custom IDs to handlers based on their path parts.
+ *
+ * Templates are raw IDs whose segments (separated by `/`) can be:
+ * - plain text, which must match exactly,
+ * - `:name`, which matches any segment and is available as `params.name`,
+ * - `*`, which matches any one segment,
+ * - `**`, as the last segment, which matches the rest of the path (even nothing),
+ *   and is available as `params["**"]`.
+ *
+ * Routes are checked in the order they were added, and the first match wins.
+ *
+ * ```ts
+ * const router = new DataCustomIdRouter<ButtonInteraction>()
+ *   .use(async ({ customId }, next) => {
+ *     console.log(customId.rawId);
+ *     await next();
+ *   })
+ *   .on("ban/:action", ({ params, fields, context: interaction }) => {
+ *     // ...
+ *   })
+ *   .notFound(({ context: interaction }) => interaction.reply("Unknown button"));
+ *
+ * client.on("interactionCreate", (interaction) => {
+ *   if (interaction.isButton()) {
+ *     router.handle(interaction.customId, interaction);
+ *   }
+ * });
+ * ```
+ */
+export default class DataCustomIdRouter<C = void> {
+  private readonly options?: DataCustomIdOptions;
+  private readonly routes: DataCustomIdRoute<C>[] = [];
+  private readonly middleware: DataCustomIdMiddleware<C>[] = [];
+  private notFoundHandler?: DataCustomIdRouteHandler<C>;
+
+  /**
+   * @param options Options passed to the DataCustomId constructor, like `signing`.
+   */
+  constructor(options?: DataCustomIdOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Registers a handler for a path template.
+   *
+   * @param template The path template, like `ban/:action`.
+   * @param handler The function to call when a custom ID matches.
+   * @returns The current instance for chaining.
+   */
+  public on(template: string, handler: DataCustomIdRouteHandler<C>): this;
+  /**
+   * Registers a handler for a path template, with fields typed by a schema.
+   *
+   * @param template The path template, like `ban/:action`.
+   * @param schema The schema used to parse the custom ID's fields.
+   * @param handler The function to call when a custom ID matches.
+   * @returns The current instance for chaining.
+   */
+  public on<S extends DataCustomIdSchemaDefinition>(
+    template: string,
+    schema: DataCustomIdSchema<S>,
+    handler: DataCustomIdRouteHandler<C, DataCustomIdSchemaFields<S>>
+  ): this;
+  public on(
+    template: string,
+    schemaOrHandler:
+      | DataCustomIdSchema<DataCustomIdSchemaDefinition>
+      | DataCustomIdRouteHandler<C, never>,
+    handler?: DataCustomIdRouteHandler<C, never>
+  ): this {
+    const segments = template.split("/");
+    if (
+      segments.indexOf("**") !== -1 &&
+      segments.indexOf("**") !== segments.length - 1
+    ) {
+      throw new Error(`"**" must be the last segment of a route: ${template}`);
+    }
+
+    // handlers only get the fields their overload promises, so they're stored with the wider type
+    if (typeof schemaOrHandler === "function") {
+      this.routes.push({
+        template,
+        segments,
+        handler: schemaOrHandler as DataCustomIdRouteHandler<
+          C,
+          DataCustomIdRouteFields
+        >,
+      });
+    } else {
+      this.routes.push({
+        template,
+        segments,
+        schema: schemaOrHandler,
+        handler: handler as DataCustomIdRouteHandler<
+          C,
+          DataCustomIdRouteFields
+        >,
+      });
+    }
+
+    return this;
+  }
+
+  /**
+   * Adds middleware, which runs before every handler (including the not-found handler),
+   * in the order it was added.
+   *
+   * @param middleware The middleware function.
+   * @returns The current instance for chaining.
+   */
+  public use(middleware: DataCustomIdMiddleware<C>): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Sets the handler called when no route matches.
+   *
+   * @param handler The fallback handler.
+   * @returns The current instance for chaining.
+   */
+  public notFound(handler: DataCustomIdRouteHandler<C>): this {
+    this.notFoundHandler = handler;
+    return this;
+  }
+
+  /**
+   * Parses a custom ID and dispatches it to the first matching route.
+   *
+   * Errors thrown while parsing (like a `DataCustomIdSignatureError`),
+   * by middleware, or by handlers reject the returned promise.
+   *
+   * @param id The custom ID string, or an already-parsed DataCustomId.
+   * @param context A value passed to middleware and handlers, like the interaction.
+   * @returns Whether a route (not the not-found handler) matched.
+   */
+  public async handle(id: string | DataCustomId, context: C): Promise<boolean> {
+    const customId =
+      typeof id === "string" ? new DataCustomId(id, this.options) : id;
+
+    for (const route of this.routes) {
+      const params = DataCustomIdRouter.match(
+        route.segments,
+        customId.pathParts
+      );
+      if (!params) {
+        continue;
+      }
+
+      await this.run(
+        {
+          customId,
+          params,
+          fields: route.schema
+            ? route.schema.parse(customId)
+            : customId.getFields(),
+          route: route.template,
+          context,
+        },
+        route.handler
+      );
+      return true;
+    }
+
+    await this.run(
+      { customId, params: {}, fields: customId.getFields(), context },
+      this.notFoundHandler
+    );
+    return false;
+  }
+
+  /**
+   * Runs the middleware chain, then the handler.
+   * @private
+   */
+  private async run(
+    ctx: DataCustomIdRouteContext<C, DataCustomIdRouteFields>,
+    handler?: DataCustomIdRouteHandler<C, DataCustomIdRouteFields>
+  ): Promise<void> {
+    const dispatch = async (index: number): Promise<void> => {
+      if (index < this.middleware.length) {
+        await this.middleware[index](ctx, () => dispatch(index + 1));
+      } else if (handler) {
+        await handler(ctx);
+      }
+    };
+
+    await dispatch(0);
+  }
+
+  /**
+   * Matches path parts against a template's segments.
+   * @returns The extracted parameters, or `undefined` if the path doesn't match.
+   * @private
+   */
+  private static match(
+    segments: string[],
+    pathParts: string[]
+  ): DataCustomIdRouteParams | undefined {
+    const params: DataCustomIdRouteParams = {};
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+
+      if (segment === "**") {
+        params["**"] = pathParts.slice(i).join("/");
+        return params;
+      }
+
+      if (i >= pathParts.length) {
+        return undefined;
+      }
+
+      if (segment.startsWith(":")) {
+        params[segment.slice(1)] = pathParts[i];
+      } else if (segment !== "*" && segment !== pathParts[i]) {
+        return undefined;
+      }
+    }
+
+    return segments.length === pathParts.length ? params : undefined;
+  }
+}
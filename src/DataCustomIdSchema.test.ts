@@ -0,0 +1,171 @@
+import DataCustomId from "./DataCustomId";
+import DataCustomIdSchema, {
+  DataCustomIdSchemaError,
+  TypedDataCustomId,
+} from "./DataCustomIdSchema";
+
+const schema = new DataCustomIdSchema({
+  user: { type: "string" },
+  days: { type: "number", default: 7 },
+  reason: { type: "string", optional: true },
+  silent: { type: "boolean" },
+  roles: { type: "string[]", optional: true },
+  amounts: { type: "number[]", optional: true },
+});
+
+describe("create", () => {
+  test("returns a TypedDataCustomId", () => {
+    const dataCustomId = schema.create("ban/confirm");
+
+    expect(dataCustomId).toBeInstanceOf(TypedDataCustomId);
+    expect(dataCustomId.toDataCustomId()).toBeInstanceOf(DataCustomId);
+    expect(dataCustomId.rawId).toBe("ban/confirm");
+  });
+
+  test("adds typed fields", () => {
+    const dataCustomId = schema
+      .create("ban/confirm")
+      .addField("user", "42390489028347289")
+      .addFields({ days: 3, silent: true });
+
+    expect(dataCustomId.toString()).toBe(
+      "ban/confirm?user=42390489028347289&days=3&silent=true"
+    );
+  });
+
+  test("rejects wrong keys and values at compile time", () => {
+    const dataCustomId = schema.create("ban/confirm");
+
+    // @ts-expect-error - not in the schema
+    dataCustomId.addField("usr", "42390489028347289");
+    // @ts-expect-error - days is a number
+    dataCustomId.addField("days", "3");
+    // @ts-expect-error - silent is a boolean
+    dataCustomId.addFields({ silent: "yes" });
+  });
+
+  test("rejects defaults with the wrong type at compile time", () => {
+    // @ts-expect-error - default must be a number
+    new DataCustomIdSchema({ days: { type: "number", default: "7" } });
+  });
+
+  test("toString throws when a required field is missing", () => {
+    const dataCustomId = schema.create("ban/confirm").addField("silent", true);
+
+    expect(() => dataCustomId.toString()).toThrow(DataCustomIdSchemaError);
+  });
+
+  test("toString doesn't require optional fields or fields with defaults", () => {
+    const dataCustomId = schema
+      .create("ban/confirm")
+      .addFields({ user: "1", silent: false });
+
+    expect(dataCustomId.toString()).toBe("ban/confirm?user=1");
+  });
+});
+
+describe("parse", () => {
+  test("parses typed fields from a string", () => {
+    const fields = schema.parse(
+      "ban/confirm?user=42390489028347289&days=3&silent=true&roles=a,b&amounts=1.5,2"
+    );
+
+    expect(fields).toStrictEqual({
+      user: "42390489028347289",
+      days: 3,
+      silent: true,
+      roles: ["a", "b"],
+      amounts: [1.5, 2],
+    });
+  });
+
+  test("parses typed fields from a DataCustomId", () => {
+    const dataCustomId = new DataCustomId("ban/confirm?user=1&reason=spam");
+
+    expect(schema.parse(dataCustomId)).toStrictEqual({
+      user: "1",
+      days: 7,
+      reason: "spam",
+      silent: false,
+    });
+  });
+
+  test("applies defaults and empty values for missing fields", () => {
+    const fields = schema.parse("ban/confirm");
+
+    expect(fields).toStrictEqual({
+      user: "",
+      days: 7,
+      silent: false,
+    });
+  });
+
+  test("decodes skipped falsy numbers as 0", () => {
+    const numberSchema = new DataCustomIdSchema({
+      count: { type: "number" },
+    });
+    const id = numberSchema.create("count").addField("count", 0).toString();
+
+    expect(numberSchema.parse(id)).toStrictEqual({ count: 0 });
+  });
+
+  test("round-trips falsy values of fields with truthy defaults", () => {
+    const defaultsSchema = new DataCustomIdSchema({
+      days: { type: "number", default: 7 },
+      on: { type: "boolean", default: true },
+      note: { type: "string", default: "none" },
+    });
+
+    for (const options of [{}, { typed: true }]) {
+      const id = defaultsSchema
+        .create("ban", options)
+        .addFields({ days: 0, on: false, note: "" })
+        .toString();
+
+      expect(defaultsSchema.parse(id, options)).toStrictEqual({
+        days: 0,
+        on: false,
+        note: "",
+      });
+    }
+    expect(defaultsSchema.parse("ban")).toStrictEqual({
+      days: 7,
+      on: true,
+      note: "none",
+    });
+  });
+
+  test("ignores fields that aren't in the schema", () => {
+    const fields = schema.parse("ban/confirm?user=1&extra=1");
+
+    expect(fields).not.toHaveProperty("extra");
+  });
+
+  test("round-trips through toString", () => {
+    const id = schema
+      .create("ban/confirm")
+      .addFields({ user: "1", days: 2, silent: false, roles: ["a", "b"] })
+      .toString();
+
+    const fields = schema.parse(id);
+    const user: string = fields.user;
+    const reason: string | undefined = fields.reason;
+
+    expect(user).toBe("1");
+    expect(reason).toBeUndefined();
+    expect(fields.days).toBe(2);
+    expect(fields.roles).toStrictEqual(["a", "b"]);
+  });
+
+  test("getTypedFields", () => {
+    const dataCustomId = schema
+      .create("ban/confirm")
+      .addFields({ user: "1", silent: true });
+
+    expect(dataCustomId.getTypedFields()).toStrictEqual({
+      user: "1",
+      days: 7,
+      silent: true,
+    });
+  });
+});
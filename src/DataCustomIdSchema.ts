@@ -0,0 +1,320 @@
+import DataCustomId, {
+  DataCustomIdEncodeOptions,
+  DataCustomIdFields,
+  DataCustomIdOptions,
+  defaultEncodeOptions,
+} from "./DataCustomId";
+
+/**
+ * The types a schema field can have.
+ */
+export type DataCustomIdSchemaFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "string[]"
+  | "number[]";
+
+interface DataCustomIdSchemaTypeMap {
+  string: string;
+  number: number;
+  boolean: boolean;
+  "string[]": string[];
+  "number[]": number[];
+}
+
+/**
+ * Describes a single field in a schema.
+ */
+export interface DataCustomIdSchemaField<
+  T extends DataCustomIdSchemaFieldType = DataCustomIdSchemaFieldType
+> {
+  /**
+   * The type of the field's value.
+   */
+  type: T;
+  /**
+   * Whether the field may be left out when building a custom ID.
+   * Optional fields without a default are `undefined` when they're missing.
+   *
+   * @default false
+   */
+  optional?: boolean;
+  /**
+   * The value used when the field is missing from a parsed custom ID.
+   * Falsy values of fields with a default are always encoded, so they aren't read as the default.
+   */
+  default?: DataCustomIdSchemaTypeMap[T];
+}
+
+export interface DataCustomIdSchemaDefinition {
+  [key: string]: DataCustomIdSchemaField;
+}
+
+/**
+ * The value type of a schema field, like `string` for `{ type: "string" }`.
+ */
+export type DataCustomIdSchemaFieldValue<F extends DataCustomIdSchemaField> =
+  DataCustomIdSchemaTypeMap[F["type"]];
+
+type OptionalKeys<S extends DataCustomIdSchemaDefinition> = {
+  [K in keyof S]: S[K] extends { optional: true }
+    ? S[K] extends { default: unknown }
+      ? never
+      : K
+    : never;
+}[keyof S];
+
+/**
+ * The typed fields object returned by parsing a custom ID with a schema.
+ */
+export type DataCustomIdSchemaFields<S extends DataCustomIdSchemaDefinition> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: DataCustomIdSchemaFieldValue<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: DataCustomIdSchemaFieldValue<S[K]>;
+};
+
+// makes sure each field's default has the same type as the field
+type ValidatedSchemaDefinition<S extends DataCustomIdSchemaDefinition> = {
+  [K in keyof S]: DataCustomIdSchemaField<S[K]["type"]>;
+};
+
+/**
+ * DataCustomIdSchemaError is thrown when a custom ID built from a schema
+ * is missing a required field.
+ */
+export class DataCustomIdSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "DataCustomIdSchemaError";
+  }
+}
+
+/**
+ * A DataCustomId whose fields are described by a schema.
+ *
+ * Create one with `schema.create(rawId)`. `addField` and `addFields` only accept
+ * keys and values that match the schema, and `getTypedFields` returns a typed object.
+ */
+export class TypedDataCustomId<S extends DataCustomIdSchemaDefinition> {
+  /**
+   * The raw Custom ID string.
+   */
+  public readonly rawId: string;
+
+  public readonly pathParts: string[];
+  private readonly schema: DataCustomIdSchema<S>;
+  private readonly customId: DataCustomId;
+
+  constructor(
+    schema: DataCustomIdSchema<S>,
+    id: string = "",
+    options?: DataCustomIdOptions
+  ) {
+    this.schema = schema;
+    this.customId = DataCustomId.create(id, options);
+    this.rawId = this.customId.rawId;
+    this.pathParts = this.customId.pathParts;
+  }
+
+  /**
+   * Adds a field to the custom ID. The key and value must match the schema.
+   *
+   * @param key The key (name) of the field.
+   * @param value Its value, with the type from the schema.
+   * @returns The current instance for chaining.
+   */
+  public addField<K extends keyof S & string>(
+    key: K,
+    value: DataCustomIdSchemaFieldValue<S[K]>
+  ): TypedDataCustomId<S> {
+    this.customId.addField(key, value);
+    return this;
+  }
+
+  /**
+   * Add multiple fields to the custom ID. Keys and values must match the schema.
+   * Overwrites existing fields with the same name.
+   * @param fields Fields to add to the custom ID.
+   * @returns The current instance for chaining.
+   */
+  public addFields(
+    fields: Partial<DataCustomIdSchemaFields<S>>
+  ): TypedDataCustomId<S> {
+    this.customId.addFields(fields as DataCustomIdFields);
+    return this;
+  }
+
+  /**
+   * Removes a field from the custom ID.
+   * @param key The key (name) of the field to remove.
+   * @returns The current instance for chaining.
+   */
+  public removeField(key: keyof S & string): TypedDataCustomId<S> {
+    this.customId.removeField(key);
+    return this;
+  }
+
+  /**
+   * Returns the Custom ID's fields, typed and with defaults applied.
+   */
+  public getTypedFields(): DataCustomIdSchemaFields<S> {
+    return this.schema.parse(this.customId);
+  }
+
+  /**
+   * Returns the untyped DataCustomId this instance builds on.
+   */
+  public toDataCustomId(): DataCustomId {
+    return this.customId;
+  }
+
+  /**
+   * Returns the raw ID string with all fields encoded.
+   *
+   * @throws {DataCustomIdSchemaError} if a required field without a default was never added.
+   * @throws {DataCustomIdLengthError} if the serialized string is over Discord's 100-character limit.
+   */
+  public toString(
+    compressionOptions: DataCustomIdEncodeOptions = defaultEncodeOptions
+  ): string {
+    const fields = this.customId.getFields();
+    let skipsDefaultedValues = false;
+
+    for (const key in this.schema.definition) {
+      const field = this.schema.definition[key];
+      if (
+        !field.optional &&
+        typeof field.default === "undefined" &&
+        typeof fields[key] === "undefined"
+      ) {
+        throw new DataCustomIdSchemaError(
+          `DataCustomId is missing required field "${key}"`
+        );
+      }
+
+      // a skipped falsy value would be parsed as the default instead
+      const value: unknown = fields[key];
+      if (
+        typeof field.default !== "undefined" &&
+        typeof value !== "undefined" &&
+        !value
+      ) {
+        skipsDefaultedValues = true;
+      }
+    }
+
+    return this.customId.toString(
+      skipsDefaultedValues && compressionOptions.skipFalsyValues
+        ? { ...compressionOptions, skipFalsyValues: false }
+        : compressionOptions
+    );
+  }
+}
+
+/**
+ * DataCustomIdSchema describes the fields of a custom ID once,
+ * then builds and parses custom IDs with those fields typed.
+ *
+ * ```ts
+ * const banSchema = new DataCustomIdSchema({
+ *   user: { type: "string" },
+ *   days: { type: "number", default: 0 },
+ *   reason: { type: "string", optional: true },
+ * });
+ *
+ * const id = banSchema.create("ban/confirm").addField("user", "42390489028347289");
+ * const { user, days, reason } = banSchema.parse(interaction.customId);
+ * ```
+ *
+ * Missing required fields without a default decode to the same empty values
+ * the getters return (`""`, `0`, `false` and `[]`), because `skipFalsyValues`
+ * leaves them out of the encoded custom ID.
+ */
+export default class DataCustomIdSchema<
+  S extends DataCustomIdSchemaDefinition
+> {
+  /**
+   * The fields in this schema.
+   */
+  public readonly definition: S;
+
+  constructor(definition: S & ValidatedSchemaDefinition<S>) {
+    this.definition = definition;
+  }
+
+  /**
+   * Creates a new, typed DataCustomId using this schema.
+   *
+   * @param id The raw custom ID, without fields.
+   * @param options Options passed to `DataCustomId.create`.
+   */
+  public create(
+    id: string = "",
+    options?: DataCustomIdOptions
+  ): TypedDataCustomId<S> {
+    return new TypedDataCustomId(this, id, options);
+  }
+
+  /**
+   * Parses a custom ID into a typed fields object.
+   * Fields that aren't in the schema are ignored.
+   *
+   * @param id A custom ID string or a DataCustomId instance.
+   * @param options Options passed to the DataCustomId constructor when `id` is a string.
+   * @returns The typed fields.
+   */
+  public parse(
+    id: string | DataCustomId,
+    options?: DataCustomIdOptions
+  ): DataCustomIdSchemaFields<S> {
+    const customId =
+      typeof id === "string" ? new DataCustomId(id, options) : id;
+    const rawFields = customId.getFields();
+    const fields: { [key: string]: unknown } = {};
+
+    for (const key in this.definition) {
+      const field = this.definition[key];
+
+      if (typeof rawFields[key] === "undefined") {
+        if (typeof field.default !== "undefined") {
+          fields[key] = field.default;
+        } else if (!field.optional) {
+          fields[key] = DataCustomIdSchema.readField(customId, key, field);
+        }
+        continue;
+      }
+
+      fields[key] = DataCustomIdSchema.readField(customId, key, field);
+    }
+
+    return fields as DataCustomIdSchemaFields<S>;
+  }
+
+  /**
+   * Reads a field with the getter for its type.
+   * @private
+   */
+  private static readField(
+    customId: DataCustomId,
+    key: string,
+    field: DataCustomIdSchemaField
+  ): unknown {
+    switch (field.type) {
+      case "string":
+        return customId.getStringField(key);
+      case "number": {
+        const value = customId.getNumericField(key, true);
+        // missing numbers were skipped because they were falsy
+        return typeof customId.getFields()[key] === "undefined" ? 0 : value;
+      }
+      case "boolean":
+        return customId.getBooleanField(key);
+      case "string[]":
+        return customId.getStringArrayField(key);
+      case "number[]":
+        return customId.getNumericArrayField(key, true);
+    }
+  }
+}
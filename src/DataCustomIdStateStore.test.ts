@@ -0,0 +1,84 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonFileStateStore, MemoryStateStore } from "./DataCustomIdStateStore";
+
+describe("MemoryStateStore", () => {
+  test("stores and gets values", () => {
+    const store = new MemoryStateStore();
+    store.set("token", "user=1");
+
+    expect(store.get("token")).toBe("user=1");
+    expect(store.get("other")).toBeUndefined();
+  });
+
+  test("removes the least recently used entry when full", () => {
+    const store = new MemoryStateStore({ maxEntries: 2 });
+    store.set("a", "1");
+    store.set("b", "2");
+    store.get("a");
+    store.set("c", "3");
+
+    expect(store.get("a")).toBe("1");
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBe("3");
+  });
+
+  test("expires entries after the ttl", () => {
+    let now = 0;
+    const store = new MemoryStateStore({ ttl: 1000, clock: () => now });
+    store.set("token", "user=1");
+
+    now = 999;
+    expect(store.get("token")).toBe("user=1");
+
+    now = 1000;
+    expect(store.get("token")).toBeUndefined();
+  });
+});
+
+describe("JsonFileStateStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "data-custom-id-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("stores and gets values", () => {
+    const store = new JsonFileStateStore(join(dir, "state.json"));
+
+    expect(store.get("token")).toBeUndefined();
+
+    store.set("token", "user=1");
+    expect(store.get("token")).toBe("user=1");
+  });
+
+  test("keeps values across instances", () => {
+    new JsonFileStateStore(join(dir, "state.json")).set("token", "user=1");
+
+    expect(new JsonFileStateStore(join(dir, "state.json")).get("token")).toBe(
+      "user=1"
+    );
+  });
+
+  test("expires entries after the ttl", () => {
+    let now = 0;
+    const store = new JsonFileStateStore(join(dir, "state.json"), {
+      ttl: 1000,
+      clock: () => now,
+    });
+    store.set("a", "1");
+
+    now = 1000;
+    expect(store.get("a")).toBeUndefined();
+
+    store.set("b", "2");
+    expect(
+      new JsonFileStateStore(join(dir, "state.json")).get("a")
+    ).toBeUndefined();
+  });
+});
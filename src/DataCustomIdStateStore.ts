@@ -0,0 +1,155 @@
+import { readFileSync, writeFileSync } from "fs";
+
+/**
+ * Stores the fields of custom IDs that don't fit in Discord's 100-character limit.
+ *
+ * Fields are stored already encoded (like `user=42390489028347289&reason=spam`)
+ * under a short token, which is all the custom ID carries.
+ *
+ * Methods may return promises, for stores like Redis or a database.
+ * Custom IDs using async stores must be built with `toStringAsync()`
+ * and parsed with `DataCustomId.parseAsync()`.
+ */
+export interface DataCustomIdStateStore {
+  /**
+   * Returns the encoded fields stored under a token,
+   * or `undefined` if there are none (for example, if they expired).
+   */
+  get(token: string): string | undefined | Promise<string | undefined>;
+  /**
+   * Stores encoded fields under a token.
+   */
+  set(token: string, value: string): void | Promise<void>;
+}
+
+export interface MemoryStateStoreOptions {
+  /**
+   * The most entries to keep. Once full, the least recently used entry is removed.
+   *
+   * @default 1000
+   */
+  maxEntries?: number;
+  /**
+   * How long, in milliseconds, entries are kept after they're stored.
+   * By default, entries don't expire.
+   */
+  ttl?: number;
+  /**
+   * Returns the current time in milliseconds. Defaults to `Date.now`.
+   */
+  clock?: () => number;
+}
+
+interface StateStoreEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * An in-memory, least-recently-used state store with optional expiry.
+ *
+ * State is lost when your bot restarts, so buttons sent before a restart
+ * can't be resolved. Use `JsonFileStateStore` or your own store if that matters.
+ */
+export class MemoryStateStore implements DataCustomIdStateStore {
+  private readonly entries = new Map<string, StateStoreEntry>();
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+  private readonly clock: () => number;
+
+  constructor(options: MemoryStateStoreOptions = {}) {
+    this.maxEntries = options.maxEntries || 1000;
+    this.ttl = options.ttl || Infinity;
+    this.clock = options.clock || Date.now;
+  }
+
+  public get(token: string): string | undefined {
+    const entry = this.entries.get(token);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(token);
+    if (entry.expiresAt <= this.clock()) {
+      return undefined;
+    }
+
+    // re-insert so the Map's order stays least to most recently used
+    this.entries.set(token, entry);
+    return entry.value;
+  }
+
+  public set(token: string, value: string): void {
+    this.entries.delete(token);
+    this.entries.set(token, { value, expiresAt: this.clock() + this.ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+}
+
+export interface JsonFileStateStoreOptions {
+  /**
+   * How long, in milliseconds, entries are kept after they're stored.
+   * By default, entries don't expire.
+   */
+  ttl?: number;
+  /**
+   * Returns the current time in milliseconds. Defaults to `Date.now`.
+   */
+  clock?: () => number;
+}
+
+/**
+ * A state store that keeps entries in a JSON file, so they survive restarts.
+ *
+ * The file is read on every `get` and rewritten on every `set`,
+ * so it's best for small bots. Expired entries are removed when writing.
+ */
+export class JsonFileStateStore implements DataCustomIdStateStore {
+  private readonly path: string;
+  private readonly ttl: number;
+  private readonly clock: () => number;
+
+  constructor(path: string, options: JsonFileStateStoreOptions = {}) {
+    this.path = path;
+    this.ttl = options.ttl || 0;
+    this.clock = options.clock || Date.now;
+  }
+
+  public get(token: string): string | undefined {
+    const entry = this.read()[token];
+    if (!entry || (entry.expiresAt && entry.expiresAt <= this.clock())) {
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  public set(token: string, value: string): void {
+    const now = this.clock();
+    const entries = this.read();
+
+    for (const key in entries) {
+      if (entries[key].expiresAt && entries[key].expiresAt <= now) {
+        delete entries[key];
+      }
+    }
+
+    // 0 means the entry doesn't expire, since JSON can't hold Infinity
+    entries[token] = { value, expiresAt: this.ttl ? now + this.ttl : 0 };
+    writeFileSync(this.path, JSON.stringify(entries));
+  }
+
+  private read(): { [token: string]: StateStoreEntry } {
+    try {
+      return JSON.parse(readFileSync(this.path, "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import DataCustomId, {
+  DataCustomIdConsumedError,
+  MemoryNonceStore,
+} from "./DataCustomId";
+import ImmutableDataCustomId from "./ImmutableDataCustomId";
+
+describe("ImmutableDataCustomId", () => {
+  test("parses custom IDs", () => {
+    const customId = new ImmutableDataCustomId("ban/confirm?user=1&roles=a,b");
+
+    expect(customId.rawId).toBe("ban/confirm");
+    expect(customId.pathParts).toStrictEqual(["ban", "confirm"]);
+    expect(customId.getFields()).toStrictEqual({
+      user: "1",
+      roles: ["a", "b"],
+    });
+    expect(customId.getNumericField("user")).toBe(1);
+  });
+
+  test("with methods return new instances", () => {
+    const customId = new ImmutableDataCustomId("ban/confirm?user=1");
+    const withReason = customId.withField("reason", "spam");
+    const withoutUser = customId.withoutField("user");
+
+    expect(customId.toString()).toBe("ban/confirm?user=1");
+    expect(withReason.toString()).toBe("ban/confirm?user=1&reason=spam");
+    expect(withoutUser.toString()).toBe("ban/confirm");
+    expect(customId.withFields({ a: "1", b: "2" }).toString()).toBe(
+      "ban/confirm?user=1&a=1&b=2"
+    );
+  });
+
+  test("withRawId and withPath keep fields", () => {
+    const customId = new ImmutableDataCustomId("ban/confirm?user=1");
+
+    expect(customId.withRawId("kick/confirm").toString()).toBe(
+      "kick/confirm?user=1"
+    );
+    expect(customId.withPath("ban", "cancel").pathParts).toStrictEqual([
+      "ban",
+      "cancel",
+    ]);
+    expect(customId.rawId).toBe("ban/confirm");
+  });
+
+  test("getFields returns frozen fields", () => {
+    const customId = new ImmutableDataCustomId("rawId?roles=a,b");
+    const fields = customId.getFields();
+
+    expect(Object.isFrozen(fields)).toBe(true);
+    expect(Object.isFrozen(fields.roles)).toBe(true);
+    expect(() => {
+      (fields as { [key: string]: unknown }).user = "1";
+    }).toThrow(TypeError);
+    expect(() => (fields.roles as string[]).push("c")).toThrow(TypeError);
+  });
+
+  test("instances are frozen", () => {
+    const customId = new ImmutableDataCustomId("rawId");
+
+    expect(Object.isFrozen(customId)).toBe(true);
+    expect(Object.isFrozen(customId.pathParts)).toBe(true);
+  });
+
+  test("arrays passed to withField are copied", () => {
+    const roles = ["a", "b"];
+    const customId = new ImmutableDataCustomId("rawId").withField(
+      "roles",
+      roles
+    );
+    roles.push("c");
+
+    expect(customId.getStringArrayField("roles")).toStrictEqual(["a", "b"]);
+  });
+
+  test("copies DataCustomIds", () => {
+    const mutable = new DataCustomId("rawId").addField("user", "1");
+    const customId = new ImmutableDataCustomId(mutable);
+    mutable.addField("user", "2");
+
+    expect(customId.getStringField("user")).toBe("1");
+
+    const copy = customId.toDataCustomId().addField("user", "3");
+    expect(copy.getStringField("user")).toBe("3");
+    expect(customId.getStringField("user")).toBe("1");
+  });
+
+  test("keeps options", () => {
+    const signing = { secret: "secret" };
+    const customId = ImmutableDataCustomId.create("ban/confirm", { signing })
+      .withField("user", "1")
+      .withRawId("kick/confirm");
+
+    expect(DataCustomId.verify(customId.toString(), signing)).toBe(true);
+  });
+
+  test("withExpiresAt", () => {
+    const customId = new ImmutableDataCustomId("rawId");
+    const expiring = customId.withExpiresAt(2000);
+
+    expect(customId.expiresAt).toBeUndefined();
+    expect(expiring.expiresAt).toStrictEqual(new Date(2000));
+    expect(expiring.isExpired()).toBe(true);
+  });
+
+  test("withOwner", () => {
+    const customId = new ImmutableDataCustomId("rawId");
+    const owned = customId.withOwner("1");
+
+    expect(customId.owner).toBeUndefined();
+    expect(owned.owner).toStrictEqual({ userId: "1" });
+    expect(Object.isFrozen(owned.owner)).toBe(true);
+    expect(owned.isOwnedBy("1")).toBe(true);
+    expect(owned.isOwnedBy("2")).toBe(false);
+    expect(owned.toString()).toBe("rawId?$o=1");
+  });
+
+  test("withSingleUse", () => {
+    const customId = new ImmutableDataCustomId("rawId");
+    const singleUse = customId.withSingleUse();
+
+    expect(customId.nonce).toBeUndefined();
+    expect(singleUse.nonce).toMatch(/^[\w-]{8}$/);
+    expect(singleUse.withSingleUse().nonce).not.toBe(singleUse.nonce);
+
+    const parsed = new ImmutableDataCustomId(singleUse.toString());
+    const store = new MemoryNonceStore();
+    expect(parsed.consume(store)).toBe(parsed);
+    expect(() => parsed.consume(store)).toThrow(DataCustomIdConsumedError);
+  });
+
+  test("parseAsync", async () => {
+    const customId = await ImmutableDataCustomId.parseAsync("rawId?user=1");
+
+    expect(customId).toBeInstanceOf(ImmutableDataCustomId);
+    expect(customId.getStringField("user")).toBe("1");
+  });
+
+  test("flags and enum fields", () => {
+    const customId = new ImmutableDataCustomId("settings");
+    const changed = customId
+      .withFlagsField("f", { dms: true }, ["pings", "dms"])
+      .withEnumField("t", "dark", ["light", "dark"]);
+
+    expect(customId.toString()).toBe("settings");
+    expect(changed.toString()).toBe("settings?f=2&t=1");
+    expect(changed.getFlagsField("f", ["pings", "dms"])).toStrictEqual({
+      pings: false,
+      dms: true,
+    });
+    expect(changed.getEnumField("t", ["light", "dark"])).toBe("dark");
+  });
+
+  test("date and duration fields", () => {
+    const customId = new ImmutableDataCustomId("ban");
+    const changed = customId
+      .withDateField("at", 1420070460000)
+      .withDurationField("for", 3600000);
+
+    expect(customId.toString()).toBe("ban");
+    expect(changed.toString()).toBe("ban?at=y&for=1h");
+    expect(changed.getDateField("at")).toStrictEqual(new Date(1420070460000));
+    expect(changed.getDurationField("for")).toBe(3600000);
+  });
+});
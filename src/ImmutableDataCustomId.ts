@@ -0,0 +1,425 @@
+import DataCustomId, {
+  DataCustomIdEncodeOptions,
+  DataCustomIdFields,
+  DataCustomIdMeasurement,
+  DataCustomIdNonceStore,
+  DataCustomIdOptions,
+  DataCustomIdOwner,
+  DataCustomIdUser,
+  EncodableDataCustomIdFieldValue,
+} from "./DataCustomId";
+
+/**
+ * ImmutableDataCustomId is a DataCustomId that can't be changed.
+ * Methods like `withField` return a new instance instead, so it's safe to build
+ * several sibling custom IDs from one parsed custom ID.
+ *
+ * ```ts
+ * const customId = new ImmutableDataCustomId(interaction.customId);
+ *
+ * const confirm = customId.withPath("ban", "confirm").toString();
+ * const cancel = customId.withPath("ban", "cancel").withoutField("reason").toString();
+ * ```
+ *
+ * `DataCustomId` is still mutable, and `toDataCustomId()` returns a mutable copy.
+ */
+export default class ImmutableDataCustomId {
+  /**
+   * The raw Custom ID string.
+   */
+  public readonly rawId: string;
+
+  public readonly pathParts: readonly string[];
+  /**
+   * When the custom ID expires, or `undefined` if it doesn't.
+   */
+  public readonly expiresAt?: Date;
+  /**
+   * Who may use the custom ID, or `undefined` if anyone may.
+   */
+  public readonly owner?: Readonly<DataCustomIdOwner>;
+  /**
+   * The nonce of a single-use custom ID, or `undefined` if it can be used any number of times.
+   */
+  public readonly nonce?: string;
+  private readonly customId: DataCustomId;
+  private readonly fields: Readonly<DataCustomIdFields>;
+
+  /**
+   * Parses a custom ID like the `DataCustomId` constructor, or copies a DataCustomId.
+   *
+   * @param id The raw custom ID with or without fields appended, or a DataCustomId to copy.
+   * @param options Options like `signing`, used when parsing a string. Defaults to `defaultOptions`.
+   */
+  constructor(id: string | DataCustomId = "", options?: DataCustomIdOptions) {
+    // copy DataCustomIds so changing them doesn't change this instance
+    this.customId =
+      typeof id === "string" ? new DataCustomId(id, options) : id.clone();
+    this.rawId = this.customId.rawId;
+    this.pathParts = Object.freeze(this.customId.pathParts.slice());
+    this.expiresAt = this.customId.expiresAt
+      ? new Date(this.customId.expiresAt.getTime())
+      : undefined;
+    this.owner = this.customId.owner
+      ? Object.freeze({ ...this.customId.owner })
+      : undefined;
+    this.nonce = this.customId.nonce;
+
+    const fields: DataCustomIdFields = {};
+    const customIdFields = this.customId.getFields();
+    for (const key in customIdFields) {
+      const value = customIdFields[key];
+      fields[key] = Array.isArray(value)
+        ? (Object.freeze((value as unknown[]).slice()) as string[])
+        : value;
+    }
+    this.fields = Object.freeze(fields);
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a new custom ID like `DataCustomId.create`, without parsing it.
+   *
+   * @param rawId The raw custom ID, without fields. Defaults to an empty string.
+   * @param options Options like `signing`, used by `toString()`. Defaults to `defaultOptions`.
+   * @returns The new ImmutableDataCustomId.
+   */
+  public static create(
+    rawId?: string,
+    options?: DataCustomIdOptions
+  ): ImmutableDataCustomId {
+    return new ImmutableDataCustomId(DataCustomId.create(rawId, options));
+  }
+
+  /**
+   * Parses a custom ID like `DataCustomId.parseAsync`, waiting for async stores.
+   *
+   * @param id The custom ID with or without fields appended.
+   * @param options Options like `store`. Defaults to `defaultOptions`.
+   * @returns The parsed ImmutableDataCustomId.
+   */
+  public static async parseAsync(
+    id: string,
+    options?: DataCustomIdOptions
+  ): Promise<ImmutableDataCustomId> {
+    return new ImmutableDataCustomId(
+      await DataCustomId.parseAsync(id, options)
+    );
+  }
+
+  /**
+   * Returns a copy with a field added, or replaced if it has the same name.
+   *
+   * @param key The key (name) of the field.
+   * @param value Its value.
+   * @returns The new ImmutableDataCustomId.
+   */
+  public withField(
+    key: string,
+    value: EncodableDataCustomIdFieldValue
+  ): ImmutableDataCustomId {
+    return this.with((customId) => customId.addField(key, value));
+  }
+
+  /**
+   * Returns a copy with fields added, replacing fields with the same name.
+   *
+   * @param fields Fields to add.
+   * @returns The new ImmutableDataCustomId.
+   */
+  public withFields(fields: DataCustomIdFields): ImmutableDataCustomId {
+    return this.with((customId) => customId.addFields(fields));
+  }
+
+  /**
+   * Returns a copy without a field.
+   *
+   * @param key The key (name) of the field to remove.
+   * @returns The new ImmutableDataCustomId.
+   */
+  public withoutField(key: string): ImmutableDataCustomId {
+    return this.with((customId) => customId.removeField(key));
+  }
+
+  /**
+   * Returns a copy with a flags field added. See `DataCustomId.addFlagsField`.
+   */
+  public withFlagsField<T extends string>(
+    key: string,
+    flags: { [name in T]?: boolean },
+    names: readonly T[]
+  ): ImmutableDataCustomId {
+    return this.with((customId) => customId.addFlagsField(key, flags, names));
+  }
+
+  /**
+   * Returns a copy with an enum field added. See `DataCustomId.addEnumField`.
+   */
+  public withEnumField<T extends string>(
+    key: string,
+    value: T,
+    choices: readonly T[]
+  ): ImmutableDataCustomId {
+    return this.with((customId) => customId.addEnumField(key, value, choices));
+  }
+
+  /**
+   * Returns a copy with a date field added. See `DataCustomId.addDateField`.
+   */
+  public withDateField(
+    key: string,
+    date: Date | number
+  ): ImmutableDataCustomId {
+    return this.with((customId) => customId.addDateField(key, date));
+  }
+
+  /**
+   * Returns a copy with a duration field added. See `DataCustomId.addDurationField`.
+   */
+  public withDurationField(key: string, ms: number): ImmutableDataCustomId {
+    return this.with((customId) => customId.addDurationField(key, ms));
+  }
+
+  /**
+   * Returns a copy with a different raw ID, keeping the fields.
+   *
+   * @param rawId The new raw ID, which must not have `?` characters.
+   * @returns The new ImmutableDataCustomId.
+   */
+  public withRawId(rawId: string): ImmutableDataCustomId {
+    return new ImmutableDataCustomId(this.customId.clone(rawId));
+  }
+
+  /**
+   * Returns a copy with a different raw ID made of path parts, keeping the fields.
+   *
+   * @param pathParts The parts of the new raw ID, like `"ban", "confirm"` for `ban/confirm`.
+   * @returns The new ImmutableDataCustomId.
+   */
+  public withPath(...pathParts: string[]): ImmutableDataCustomId {
+    return this.withRawId(pathParts.join("/"));
+  }
+
+  /**
+   * Returns a copy that expires some time from now. See `DataCustomId.setExpiresIn`.
+   *
+   * @param ms How long, in milliseconds, until the custom ID expires.
+   * @returns The new ImmutableDataCustomId.
+   */
+  public withExpiresIn(ms: number): ImmutableDataCustomId {
+    return this.with((customId) => customId.setExpiresIn(ms));
+  }
+
+  /**
+   * Returns a copy that expires at a given time. See `DataCustomId.setExpiresAt`.
+   *
+   * @param date When the custom ID expires, as a Date or in milliseconds.
+   * @returns The new ImmutableDataCustomId.
+   */
+  public withExpiresAt(date: Date | number): ImmutableDataCustomId {
+    return this.with((customId) => customId.setExpiresAt(date));
+  }
+
+  /**
+   * Returns a copy bound to who may use it. See `DataCustomId.setOwner`.
+   *
+   * @param owner The ID of the user who may use the custom ID, or a user, role and guild.
+   * @returns The new ImmutableDataCustomId.
+   */
+  public withOwner(owner: string | DataCustomIdOwner): ImmutableDataCustomId {
+    return this.with((customId) => customId.setOwner(owner));
+  }
+
+  /**
+   * Returns a single-use copy, with its own nonce. See `DataCustomId.setSingleUse`.
+   *
+   * @returns The new ImmutableDataCustomId.
+   */
+  public withSingleUse(): ImmutableDataCustomId {
+    return this.with((customId) => customId.setSingleUse());
+  }
+
+  /**
+   * Returns all the Custom ID's fields. The object and its arrays are frozen.
+   */
+  public getFields(): Readonly<DataCustomIdFields> {
+    return this.fields;
+  }
+
+  /**
+   * Returns the value of a string field. See `DataCustomId.getStringField`.
+   */
+  public getStringField(key: string): string {
+    return this.customId.getStringField(key);
+  }
+
+  /**
+   * Returns a copy of the value of a string array field. See `DataCustomId.getStringArrayField`.
+   */
+  public getStringArrayField(key: string): string[] {
+    return this.customId.getStringArrayField(key).slice();
+  }
+
+  /**
+   * Returns the value of a numeric field. See `DataCustomId.getNumericField`.
+   */
+  public getNumericField(key: string, float = false, base = 10): number {
+    return this.customId.getNumericField(key, float, base);
+  }
+
+  /**
+   * Returns the value of a numeric array field. See `DataCustomId.getNumericArrayField`.
+   */
+  public getNumericArrayField(key: string, float = false, base = 10): number[] {
+    return this.customId.getNumericArrayField(key, float, base);
+  }
+
+  /**
+   * Returns the value of a snowflake field. See `DataCustomId.getSnowflakeField`.
+   */
+  public getSnowflakeField(key: string, base: 10 | 62 = 10): bigint {
+    return this.customId.getSnowflakeField(key, base);
+  }
+
+  /**
+   * Returns the value of a snowflake array field. See `DataCustomId.getSnowflakeArrayField`.
+   */
+  public getSnowflakeArrayField(key: string, base: 10 | 62 = 10): bigint[] {
+    return this.customId.getSnowflakeArrayField(key, base);
+  }
+
+  /**
+   * Returns the value of a boolean field. See `DataCustomId.getBooleanField`.
+   */
+  public getBooleanField(key: string): boolean {
+    return this.customId.getBooleanField(key);
+  }
+
+  /**
+   * Returns the value of a flags field. See `DataCustomId.getFlagsField`.
+   */
+  public getFlagsField<T extends string>(
+    key: string,
+    names: readonly T[]
+  ): { [name in T]: boolean } {
+    return this.customId.getFlagsField(key, names);
+  }
+
+  /**
+   * Returns the value of an enum field. See `DataCustomId.getEnumField`.
+   */
+  public getEnumField<T extends string>(
+    key: string,
+    choices: readonly T[]
+  ): T | undefined {
+    return this.customId.getEnumField(key, choices);
+  }
+
+  /**
+   * Returns the value of a date field. See `DataCustomId.getDateField`.
+   */
+  public getDateField(key: string): Date {
+    return this.customId.getDateField(key);
+  }
+
+  /**
+   * Returns the value of a duration field. See `DataCustomId.getDurationField`.
+   */
+  public getDurationField(key: string): number {
+    return this.customId.getDurationField(key);
+  }
+
+  /**
+   * Checks whether the custom ID has expired. See `DataCustomId.isExpired`.
+   */
+  public isExpired(): boolean {
+    return this.customId.isExpired();
+  }
+
+  /**
+   * Checks whether a user may use the custom ID. See `DataCustomId.isOwnedBy`.
+   */
+  public isOwnedBy(user: string | DataCustomIdUser): boolean {
+    return this.customId.isOwnedBy(user);
+  }
+
+  /**
+   * Uses a single-use custom ID, so it can't be used again. See `DataCustomId.consume`.
+   *
+   * @throws {DataCustomIdConsumedError} if the custom ID was already used.
+   * @throws {DataCustomIdStoreError} if the store is async.
+   * @returns The current instance for chaining.
+   */
+  public consume(store?: DataCustomIdNonceStore): this {
+    this.customId.consume(store);
+    return this;
+  }
+
+  /**
+   * Uses a single-use custom ID, waiting for async stores. See `DataCustomId.consumeAsync`.
+   *
+   * @throws {DataCustomIdConsumedError} if the custom ID was already used.
+   * @returns The current instance.
+   */
+  public async consumeAsync(store?: DataCustomIdNonceStore): Promise<this> {
+    await this.customId.consumeAsync(store);
+    return this;
+  }
+
+  /**
+   * Measures the encoded custom ID. See `DataCustomId.measure`.
+   */
+  public measure(
+    compressionOptions?: DataCustomIdEncodeOptions
+  ): DataCustomIdMeasurement {
+    return this.customId.measure(compressionOptions);
+  }
+
+  /**
+   * Describes the encoded custom ID's length. See `DataCustomId.explain`.
+   */
+  public explain(compressionOptions?: DataCustomIdEncodeOptions): string {
+    return this.customId.explain(compressionOptions);
+  }
+
+  /**
+   * Returns a mutable copy of this custom ID.
+   */
+  public toDataCustomId(): DataCustomId {
+    return this.customId.clone();
+  }
+
+  /**
+   * Returns the raw ID string with all fields encoded. See `DataCustomId.toString`.
+   *
+   * @throws {DataCustomIdLengthError} if the serialized string is over Discord's 100-character limit.
+   */
+  public toString(compressionOptions?: DataCustomIdEncodeOptions): string {
+    return this.customId.toString(compressionOptions);
+  }
+
+  /**
+   * Returns the raw ID string with all fields encoded, waiting for async stores.
+   * See `DataCustomId.toStringAsync`.
+   *
+   * @throws {DataCustomIdLengthError} if the serialized string is over Discord's 100-character limit.
+   */
+  public toStringAsync(
+    compressionOptions?: DataCustomIdEncodeOptions
+  ): Promise<string> {
+    return this.customId.toStringAsync(compressionOptions);
+  }
+
+  /**
+   * Copies the custom ID, changes the copy, and wraps it.
+   * @private
+   */
+  private with(
+    change: (customId: DataCustomId) => void
+  ): ImmutableDataCustomId {
+    const customId = this.customId.clone();
+    change(customId);
+    return new ImmutableDataCustomId(customId);
+  }
+}
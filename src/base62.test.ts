@@ -0,0 +1,34 @@
+import { decodeBase62, encodeBase62 } from "./base62";
+
+describe("encodeBase62", () => {
+  test("encodes integers", () => {
+    expect(encodeBase62(0)).toBe("0");
+    expect(encodeBase62(61)).toBe("z");
+    expect(encodeBase62(62)).toBe("10");
+    expect(encodeBase62(-62)).toBe("-10");
+  });
+
+  test("encodes snowflakes", () => {
+    expect(encodeBase62(BigInt("42390489028347289"))).toBe("389EKWzMNN");
+  });
+});
+
+describe("decodeBase62", () => {
+  test("round-trips", () => {
+    for (const value of [
+      "0",
+      "1",
+      "-1",
+      "42390489028347289",
+      "18446744073709551615",
+    ]) {
+      expect(decodeBase62(encodeBase62(BigInt(value)))).toBe(BigInt(value));
+    }
+  });
+
+  test("returns undefined for invalid strings", () => {
+    expect(decodeBase62("")).toBeUndefined();
+    expect(decodeBase62("-")).toBeUndefined();
+    expect(decodeBase62("abc!")).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+const alphabet =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const base = BigInt(alphabet.length);
+const zero = BigInt(0);
+
+/**
+ * Encodes an integer with the URL-safe characters `0-9`, `A-Z` and `a-z`.
+ * Negative integers start with `-`.
+ *
+ * A snowflake like `42390489028347289` becomes `389EKWzMNN` (10 characters instead of 17).
+ *
+ * @param value An integer, as a bigint or a safe integer number.
+ * @returns The base-62 string.
+ */
+export function encodeBase62(value: bigint | number): string {
+  let remaining = BigInt(value);
+  if (remaining < zero) {
+    return `-${encodeBase62(-remaining)}`;
+  }
+
+  let encoded = "";
+  do {
+    encoded = alphabet[Number(remaining % base)] + encoded;
+    remaining /= base;
+  } while (remaining > zero);
+
+  return encoded;
+}
+
+/**
+ * Decodes a string encoded with `encodeBase62`.
+ *
+ * @param value The base-62 string.
+ * @returns The integer, or `undefined` if the string isn't valid base 62.
+ */
+export function decodeBase62(value: string): bigint | undefined {
+  if (value.startsWith("-")) {
+    const decoded = decodeBase62(value.slice(1));
+    return typeof decoded === "undefined" ? undefined : -decoded;
+  }
+
+  if (!value) {
+    return undefined;
+  }
+
+  let decoded = zero;
+  for (let i = 0; i < value.length; i++) {
+    const digit = alphabet.indexOf(value[i]);
+    if (digit === -1) {
+      return undefined;
+    }
+    decoded = decoded * base + BigInt(digit);
+  }
+
+  return decoded;
+}
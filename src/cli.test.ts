@@ -0,0 +1,215 @@
+import DataCustomId from "./DataCustomId";
+import { run } from "./cli";
+
+async function cli(argv: string[], stdin = "") {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await run(argv, {
+    readStdin: async () => stdin,
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+  });
+  return { code, stdout: out.join("\n"), stderr: err.join("\n") };
+}
+
+describe("cli", () => {
+  describe("decode", () => {
+    test("prints the raw ID, path parts, fields and length", async () => {
+      const { code, stdout } = await cli(["ban/confirm?user=1&roles=a,b"]);
+
+      expect(code).toBe(0);
+      expect(stdout).toContain("rawId: ban/confirm");
+      expect(stdout).toContain('pathParts: ["ban","confirm"]');
+      expect(stdout).toContain('  user: "1"');
+      expect(stdout).toContain('  roles: ["a","b"]');
+      expect(stdout).toContain("length: 28 of 100");
+      expect(stdout).toContain("field roles: 9");
+    });
+
+    test("rejects malformed custom IDs with --strict", async () => {
+      expect((await cli(["ban?user=1&user=2"])).code).toBe(0);
+
+      const { code, stderr } = await cli(["ban?user=1&user=2", "--strict"]);
+      expect(code).toBe(1);
+      expect(stderr).toBe(
+        "DataCustomIdParseError: DataCustomId has a repeated key at 11: user=2"
+      );
+    });
+
+    test("leaves out signatures it can't verify", async () => {
+      const id = DataCustomId.create("ban", { signing: { secret: "secret" } })
+        .addField("user", "1")
+        .toString();
+      const { code, stdout } = await cli([id]);
+
+      expect(code).toBe(0);
+      expect(stdout).toContain('  user: "1"');
+      expect(stdout).not.toContain("~");
+    });
+
+    test("prints the owner and nonce", async () => {
+      const customId = new DataCustomId("ban").setOwner("1").setSingleUse();
+      const { stdout } = await cli([customId.toString()]);
+
+      expect(stdout).toContain('owner: {"userId":"1"}');
+      expect(stdout).toContain(`nonce: ${customId.nonce}`);
+    });
+
+    test("reads the custom ID from stdin", async () => {
+      expect((await cli(["decode"], "ban/confirm?user=1\n")).stdout).toContain(
+        "rawId: ban/confirm"
+      );
+      expect((await cli(["-"], "ban?user=1")).stdout).toContain("rawId: ban");
+    });
+
+    test("prints JSON", async () => {
+      const { stdout } = await cli(["ban?user=1&$d=2", "--json"]);
+
+      expect(JSON.parse(stdout)).toMatchObject({
+        rawId: "ban",
+        pathParts: ["ban"],
+        fields: { user: "1" },
+        length: 15,
+        limit: 100,
+        fits: true,
+        discriminator: 2,
+        measurement: { fields: { user: 6 } },
+      });
+    });
+
+    test("prints typed fields, including bigints", async () => {
+      const id = new DataCustomId("ban", { typed: true })
+        .addFields({ user: BigInt(42), days: 7 })
+        .toString();
+
+      expect(
+        JSON.parse((await cli([id, "--typed", "--json"])).stdout).fields
+      ).toStrictEqual({ user: "42", days: 7 });
+    });
+
+    test("verifies signatures", async () => {
+      const id = DataCustomId.create("ban", { signing: { secret: "secret" } })
+        .addField("user", "1")
+        .toString();
+
+      const valid = await cli([id, "--secret", "old", "--secret", "secret"]);
+      expect(valid.code).toBe(0);
+      expect(valid.stdout).toContain("signature: valid");
+      expect(valid.stdout).toContain('  user: "1"');
+
+      const invalid = await cli([
+        id.replace("user=1", "user=2"),
+        "--secret",
+        "secret",
+      ]);
+      expect(invalid.code).toBe(1);
+      expect(invalid.stdout).toContain("signature: invalid");
+      expect(invalid.stdout).toContain('  user: "2"');
+    });
+
+    test("checks expiry", async () => {
+      const expired = new DataCustomId("ban", { clock: () => 0 })
+        .setExpiresIn(1000)
+        .toString();
+      const { code, stdout } = await cli([expired]);
+
+      expect(code).toBe(1);
+      expect(stdout).toContain("expires: 1970-01-01T00:00:01.000Z (expired)");
+
+      const fresh = new DataCustomId("ban").setExpiresIn(60_000).toString();
+      expect((await cli([fresh])).code).toBe(0);
+    });
+
+    test("reports custom IDs over the limit", async () => {
+      const { code, stdout } = await cli([`ban?a=${"x".repeat(100)}`]);
+
+      expect(code).toBe(1);
+      expect(stdout).toContain("length: 106 of 100 (too long)");
+    });
+  });
+
+  describe("encode", () => {
+    test("builds a custom ID from JSON", async () => {
+      const { code, stdout } = await cli([
+        "encode",
+        '{"rawId": "ban/confirm", "fields": {"user": "1", "days": 7}}',
+      ]);
+
+      expect(code).toBe(0);
+      expect(stdout.split("\n")[0]).toBe("ban/confirm?user=1&days=7");
+      expect(stdout).toContain("total: 25 of 100 (75 remaining)");
+    });
+
+    test("reads JSON from stdin, and signs", async () => {
+      const { stdout } = await cli(
+        ["encode", "--secret", "secret", "--json"],
+        '{"rawId": "ban", "fields": {"user": "1"}}'
+      );
+      const { id, fits } = JSON.parse(stdout);
+
+      expect(fits).toBe(true);
+      expect(DataCustomId.verify(id, { secret: "secret" })).toBe(true);
+    });
+
+    test("reports whether it fits", async () => {
+      const json = JSON.stringify({
+        rawId: "ban",
+        fields: { a: "x".repeat(50) },
+      });
+
+      const tooLong = await cli([
+        "encode",
+        json,
+        "--max-length",
+        "50",
+        "--json",
+      ]);
+      expect(tooLong.code).toBe(1);
+      expect(JSON.parse(tooLong.stdout)).toMatchObject({
+        length: 56,
+        limit: 50,
+        fits: false,
+      });
+      expect(JSON.parse(tooLong.stdout).id).toBeUndefined();
+
+      const text = await cli(["encode", json, "--max-length", "50"]);
+      expect(text.stdout).toContain("doesn't fit:");
+      expect(text.stdout).toContain("total: 56 of 50 (-6 remaining)");
+    });
+
+    test("uses encode options", async () => {
+      const { stdout } = await cli([
+        "encode",
+        '{"rawId": "ban", "fields": {"n": 1000}}',
+        "--compact",
+      ]);
+
+      expect(stdout.split("\n")[0]).toBe("ban?n=G8");
+    });
+  });
+
+  describe("usage", () => {
+    test("prints help", async () => {
+      const { code, stdout } = await cli(["--help"]);
+
+      expect(code).toBe(0);
+      expect(stdout).toContain("Usage:");
+    });
+
+    test("rejects bad arguments", async () => {
+      for (const argv of [
+        ["--bogus"],
+        ["--secret"],
+        ["--max-length", "abc", "ban"],
+        ["ban", "confirm"],
+        ["decode"],
+        ["encode", "not json"],
+        ["encode", '{"fields": {}}'],
+      ]) {
+        const { code, stderr } = await cli(argv);
+        expect(code).toBe(2);
+        expect(stderr).toContain("Usage:");
+      }
+    });
+  });
+});
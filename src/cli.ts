@@ -0,0 +1,351 @@
+#!/usr/bin/env node
+import DataCustomId, {
+  DataCustomIdEncodeOptions,
+  DataCustomIdFields,
+  DataCustomIdOptions,
+} from "./DataCustomId";
+
+/**
+ * Where the CLI reads input and writes output, so it can be run without a terminal.
+ */
+export interface DataCustomIdCliIO {
+  readStdin: () => Promise<string>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const usage = `Usage:
+  data-custom-id [decode] [id] [options]   Decodes a custom ID (or reads it from stdin)
+  data-custom-id encode [json] [options]   Builds a custom ID from {"rawId": "...", "fields": {...}}
+
+Options:
+  --json                    Prints JSON
+  --secret <secret>         Verifies (decode) or signs (encode) with a secret; repeat to accept several
+  --signature-length <n>    The signature length, if not 8
+  --typed                   Uses the typed option
+  --escape                  Uses the escape option
+  --strict                  Rejects malformed custom IDs (decode)
+  --compact                 Encodes with compactIntegers
+  --max-length <n>          The length limit, if not 100
+  --help                    Prints this help`;
+
+interface CliArgs {
+  command: "decode" | "encode";
+  input?: string;
+  json: boolean;
+  secrets: string[];
+  signatureLength?: number;
+  typed: boolean;
+  escape: boolean;
+  strict: boolean;
+  compact: boolean;
+  maxLength?: number;
+  help: boolean;
+}
+
+/**
+ * CliUsageError is thrown for arguments the CLI doesn't understand.
+ * @private
+ */
+class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "CliUsageError";
+  }
+}
+
+/**
+ * Parses command-line arguments.
+ * @throws {CliUsageError} for unknown options, or options missing their value.
+ */
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: "decode",
+    json: false,
+    secrets: [],
+    typed: false,
+    escape: false,
+    strict: false,
+    compact: false,
+    help: false,
+  };
+  const positional: string[] = [];
+
+  const value = (i: number, option: string): string => {
+    if (i >= argv.length) {
+      throw new CliUsageError(`${option} needs a value`);
+    }
+    return argv[i];
+  };
+  const number = (i: number, option: string): number => {
+    const n = Number(value(i, option));
+    if (!(n > 0) || Math.floor(n) !== n) {
+      throw new CliUsageError(`${option} needs a positive integer`);
+    }
+    return n;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--json":
+        args.json = true;
+        break;
+      case "--secret":
+        args.secrets.push(value(++i, "--secret"));
+        break;
+      case "--signature-length":
+        args.signatureLength = number(++i, "--signature-length");
+        break;
+      case "--typed":
+        args.typed = true;
+        break;
+      case "--escape":
+        args.escape = true;
+        break;
+      case "--strict":
+        args.strict = true;
+        break;
+      case "--compact":
+        args.compact = true;
+        break;
+      case "--max-length":
+        args.maxLength = number(++i, "--max-length");
+        break;
+      case "--help":
+      case "-h":
+        args.help = true;
+        break;
+      default:
+        // custom IDs can't start with --, but they can be "-"
+        if (argv[i].startsWith("--")) {
+          throw new CliUsageError(`Unknown option: ${argv[i]}`);
+        }
+        positional.push(argv[i]);
+    }
+  }
+
+  if (positional[0] === "decode" || positional[0] === "encode") {
+    args.command = positional.shift() as CliArgs["command"];
+  }
+  if (positional.length > 1) {
+    throw new CliUsageError(
+      "Pass one custom ID, and quote it if it has spaces or &"
+    );
+  }
+  args.input = positional[0];
+
+  return args;
+}
+
+/**
+ * Makes fields printable as JSON, since JSON can't hold bigints.
+ */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+}
+
+function options(args: CliArgs, signing: boolean): DataCustomIdOptions {
+  return {
+    signing:
+      signing && args.secrets.length
+        ? { secret: args.secrets, signatureLength: args.signatureLength }
+        : undefined,
+    typed: args.typed,
+    escape: args.escape,
+    strict: args.strict,
+  };
+}
+
+function encodeOptions(args: CliArgs): DataCustomIdEncodeOptions {
+  return { compactIntegers: args.compact, maxLength: args.maxLength };
+}
+
+function decode(id: string, args: CliArgs, io: DataCustomIdCliIO): number {
+  let signature: "valid" | "invalid" | undefined;
+  if (args.secrets.length) {
+    const { signing } = options(args, true);
+    signature =
+      signing && DataCustomId.verify(id, signing) ? "valid" : "invalid";
+  }
+  // still show what's inside, without the signature, even if it can't be verified
+  const unsignedId = id.replace(/~[\w-]+$/, "");
+
+  const customId = new DataCustomId(unsignedId, options(args, false));
+  const limit = args.maxLength || 100;
+  const expired = customId.expiresAt ? customId.isExpired() : undefined;
+  const fits = id.length <= limit;
+
+  if (args.json) {
+    io.stdout(
+      toJson({
+        rawId: customId.rawId,
+        pathParts: customId.pathParts,
+        fields: customId.getFields(),
+        length: id.length,
+        limit,
+        fits,
+        signature,
+        expiresAt: customId.expiresAt && customId.expiresAt.toISOString(),
+        expired,
+        discriminator: customId.discriminator,
+        owner: customId.owner,
+        nonce: customId.nonce,
+        measurement: customId.measure(encodeOptions(args)),
+      })
+    );
+  } else {
+    const lines = [
+      `rawId: ${customId.rawId}`,
+      `pathParts: ${toJson(customId.pathParts)}`,
+      "fields:",
+    ];
+    const fields = customId.getFields();
+    for (const key in fields) {
+      lines.push(`  ${key}: ${toJson(fields[key])}`);
+    }
+    if (customId.expiresAt) {
+      lines.push(
+        `expires: ${customId.expiresAt.toISOString()}${
+          expired ? " (expired)" : ""
+        }`
+      );
+    }
+    if (typeof customId.discriminator !== "undefined") {
+      lines.push(`discriminator: ${customId.discriminator}`);
+    }
+    if (customId.owner) {
+      lines.push(`owner: ${toJson(customId.owner)}`);
+    }
+    if (typeof customId.nonce !== "undefined") {
+      lines.push(`nonce: ${customId.nonce}`);
+    }
+    if (signature) {
+      lines.push(`signature: ${signature}`);
+    }
+    lines.push(
+      `length: ${id.length} of ${limit}${fits ? "" : " (too long)"}`,
+      "",
+      "re-encoded:",
+      customId.explain(encodeOptions(args))
+    );
+    io.stdout(lines.join("\n"));
+  }
+
+  return signature === "invalid" || expired || !fits ? 1 : 0;
+}
+
+function encode(json: string, args: CliArgs, io: DataCustomIdCliIO): number {
+  let input: { rawId?: unknown; fields?: unknown };
+  try {
+    input = JSON.parse(json);
+  } catch (e) {
+    throw new CliUsageError(`The input isn't valid JSON: ${json}`);
+  }
+  if (
+    typeof input !== "object" ||
+    input === null ||
+    typeof input.rawId !== "string" ||
+    (typeof input.fields !== "undefined" &&
+      (typeof input.fields !== "object" || input.fields === null))
+  ) {
+    throw new CliUsageError(
+      'The input must look like {"rawId": "ban/confirm", "fields": {"user": "1"}}'
+    );
+  }
+
+  const customId = DataCustomId.create(input.rawId, options(args, true));
+  customId.addFields((input.fields || {}) as DataCustomIdFields);
+
+  // toString() throws exactly when the measured length is over the limit
+  const measurement = customId.measure(encodeOptions(args));
+  const id =
+    measurement.remaining >= 0
+      ? customId.toString(encodeOptions(args))
+      : undefined;
+
+  if (args.json) {
+    io.stdout(
+      toJson({
+        id,
+        length: measurement.length,
+        limit: measurement.limit,
+        fits: typeof id === "string",
+        measurement,
+      })
+    );
+  } else {
+    io.stdout(
+      [
+        typeof id === "string" ? id : "doesn't fit:",
+        "",
+        customId.explain(encodeOptions(args)),
+      ].join("\n")
+    );
+  }
+
+  return typeof id === "string" ? 0 : 1;
+}
+
+/**
+ * Runs the CLI.
+ *
+ * @param argv The arguments, without `node` and the script.
+ * @param io Where to read input and write output.
+ * @returns The exit code: `0` for a valid custom ID that fits, `1` for an invalid, expired
+ * or too long custom ID, and `2` for usage errors.
+ */
+export async function run(
+  argv: string[],
+  io: DataCustomIdCliIO
+): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    if (args.help) {
+      io.stdout(usage);
+      return 0;
+    }
+
+    const input =
+      typeof args.input === "string" && args.input !== "-"
+        ? args.input
+        : (await io.readStdin()).trim();
+    if (!input) {
+      throw new CliUsageError(
+        args.command === "encode"
+          ? "Pass JSON to encode"
+          : "Pass a custom ID to decode"
+      );
+    }
+
+    return args.command === "encode"
+      ? encode(input, args, io)
+      : decode(input, args, io);
+  } catch (e) {
+    if (e instanceof CliUsageError) {
+      io.stderr(`${e.message}\n\n${usage}`);
+      return 2;
+    }
+    io.stderr(e instanceof Error ? `${e.name}: ${e.message}` : String(e));
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2), {
+    readStdin: () =>
+      new Promise((resolve, reject) => {
+        let data = "";
+        process.stdin.setEncoding("utf8");
+        process.stdin.on("data", (chunk) => (data += chunk));
+        process.stdin.on("end", () => resolve(data));
+        process.stdin.on("error", reject);
+      }),
+    stdout: (text) => console.log(text),
+    stderr: (text) => console.error(text),
+  }).then((code) => {
+    process.exitCode = code;
+  });
+}